@@ -1,7 +1,15 @@
 import ClubsDashboard from './ClubsDashboard'
+import AuthGate from './components/AuthGate'
+import { AuthProvider } from './auth'
 
 function App() {
-  return <ClubsDashboard />
+  return (
+    <AuthProvider>
+      <AuthGate>
+        <ClubsDashboard />
+      </AuthGate>
+    </AuthProvider>
+  )
 }
 
 export default App
\ No newline at end of file
@@ -1,122 +1,182 @@
-import { useState, useEffect } from 'react'
-import { supabase } from './supabase'
-import type { Club, Server } from './types'
+import { useState, useEffect, useCallback } from 'react'
+import { api, getErrorMessage, clearCachedResponses, clearQueuedWrites } from './api'
+import { useAuth, getRoleLabel } from './auth'
+import { useRoute, isServerView, toClubView } from './routing'
+import type { RouteModal } from './routing'
+import type { BulkMemberAction } from './members'
+import { useClubRealtime } from './realtime'
+import { useOfflineSync } from './offline'
+import { useCachedServers, useCachedClub, loadServers, loadClub, fetchServers, fetchClub, invalidateClub, clearCache } from './cache'
+import type { Discussion, Member, TrashItem } from './types'
+import AddServerModal from './components/modals/AddServerModal'
 import AddClubModal from './components/modals/AddClubModal'
 import EditBookModal from './components/modals/EditBookModal'
 import NewSessionModal from './components/modals/NewSessionModal'
+import CloseSessionModal from './components/modals/CloseSessionModal'
 import DiscussionModal from './components/modals/DiscussionModal'
 import MemberModal from './components/modals/MemberModal'
 import DeleteMemberModal from './components/modals/DeleteMemberModal'
 import DeleteDiscussionModal from './components/modals/DeleteDiscussionModal'
 import DeleteClubModal from './components/modals/DeleteClubModal'
+import MoveClubModal from './components/modals/MoveClubModal'
+import BulkMemberModal from './components/modals/BulkMemberModal'
+import ExportModal from './components/modals/ExportModal'
+import ImportModal from './components/modals/ImportModal'
 import ClubsSidebar from './components/ClubsSidebar'
 import CurrentReadingCard from './components/CurrentReadingCard'
 import DiscussionsTimeline from './components/DiscussionsTimeline'
+import ReadingHistory from './components/ReadingHistory'
 import MembersTable from './components/MembersTable'
+import ClubViewTabs from './components/ClubViewTabs'
+import StatisticsView from './components/StatisticsView'
+import ServerStatistics from './components/ServerStatistics'
+import CalendarView from './components/CalendarView'
+import MemberProfile from './components/MemberProfile'
+import DuplicateMembersView from './components/DuplicateMembersView'
+import TrashView from './components/TrashView'
+import UndoToast from './components/UndoToast'
+import ActivityView from './components/ActivityView'
+import ClubSettings from './components/ClubSettings'
+import ServerAdminView from './components/ServerAdminView'
+import RemoteUpdateIndicator from './components/RemoteUpdateIndicator'
+import SyncStatus from './components/SyncStatus'
 
 export default function ClubsDashboard() {
-  const [servers, setServers] = useState<Server[]>([])
-  const [selectedServer, setSelectedServer] = useState<string>('')
-  const [selectedClub, setSelectedClub] = useState<Club | null>(null)
-  const [loading, setLoading] = useState(true)
+  const { user, can, roleIn, signOut } = useAuth()
+  const { route, navigate } = useRoute()
+  const cachedServers = useCachedServers()
   const [error, setError] = useState<string | null>(null)
+  const [remoteUpdateAt, setRemoteUpdateAt] = useState<Date | null>(null)
+  const [trashedItem, setTrashedItem] = useState<TrashItem | null>(null) // Last delete, offered for undo
+
+  // Server and club selection live in the URL so they survive refreshes and can be shared
+  const selectedServer = route.serverId ?? ''
+  const servers = cachedServers ?? []
+  const selectedClub = useCachedClub(selectedServer ? route.clubId : undefined)
+  const loading = !cachedServers && !error
   
-  // Add Club Modal State
-  const [showAddClubModal, setShowAddClubModal] = useState(false)
-  
-  // Edit Book Modal State
-  const [showEditBookModal, setShowEditBookModal] = useState(false)
-  
-  // New Session Modal State
-  const [showNewSessionModal, setShowNewSessionModal] = useState(false)
+  // Add Server, Add Club, Edit Book, New/Close Session and Import/Export modals are addressable through ?modal=
+  const openModal = (modal: RouteModal) => navigate({ ...route, modal }, { replace: true })
+  const closeModal = () => navigate({ ...route, modal: undefined }, { replace: true })
   
   // Discussion Modal State
   const [showAddDiscussionModal, setShowAddDiscussionModal] = useState(false)
-  const [editingDiscussion, setEditingDiscussion] = useState<any>(null)
+  const [editingDiscussion, setEditingDiscussion] = useState<Discussion | null>(null)
   
   // Delete Discussion Modal State
   const [showDeleteDiscussionModal, setShowDeleteDiscussionModal] = useState(false)
-  const [discussionToDelete, setDiscussionToDelete] = useState<any>(null)
+  const [discussionToDelete, setDiscussionToDelete] = useState<Discussion | null>(null)
   
   // Delete Club Modal State
   const [showDeleteClubModal, setShowDeleteClubModal] = useState(false)
   const [clubToDelete, setClubToDelete] = useState<{ id: string; name: string } | null>(null)
 
+  // Move Club Modal State
+  const [clubToMove, setClubToMove] = useState<{ id: string; name: string } | null>(null)
+
   // Member Modal State
   const [showMemberModal, setShowMemberModal] = useState(false)
-  const [editingMember, setEditingMember] = useState<any>(null)
+  const [editingMember, setEditingMember] = useState<Member | null>(null)
 
   // Delete Member Modal State
   const [showDeleteMemberModal, setShowDeleteMemberModal] = useState(false)
-  const [memberToDelete, setMemberToDelete] = useState<any>(null)
+  const [memberToDelete, setMemberToDelete] = useState<Member | null>(null)
 
-  // Fetch servers on component mount
+  // Bulk Member Selection & Modal State
+  const [selectedMemberIds, setSelectedMemberIds] = useState<Member['id'][]>([])
+  const [bulkAction, setBulkAction] = useState<BulkMemberAction | null>(null)
+  const [bulkMembers, setBulkMembers] = useState<Member[]>([])
+
+  // Fetch servers on component mount; a cached list renders while it loads
   useEffect(() => {
-    fetchServers(false) // Don't preserve selection on initial load
+    loadServers().catch((err: unknown) => setError(getErrorMessage(err, 'Failed to fetch servers')))
   }, [])
 
-  const fetchServers = async (preserveSelection = true) => {
+  // Keep the server from the URL if it still exists, otherwise fall back to the first one
+  useEffect(() => {
+    if (!cachedServers?.length || cachedServers.some(s => s.id === selectedServer)) return
+    navigate({ serverId: cachedServers[0].id, view: 'overview' }, { replace: true })
+  }, [cachedServers, selectedServer, navigate])
+
+  // Reload the server list in place after clubs are added, deleted or restored
+  const refreshServers = async () => {
     try {
-      setLoading(true)
-      setError(null)
-      
-      // Preserve current selection if requested
-      const currentSelection = preserveSelection ? selectedServer : null
-      
-      const { data, error } = await supabase.functions.invoke('server', {
-        method: 'GET'
-      })
-
-      if (error) throw error
-
-      if (data?.servers) {
-        setServers(data.servers)
-        
-        // Smart selection logic
-        if (currentSelection && data.servers.find((s: Server) => s.id === currentSelection)) {
-          // Preserve selection if the server still exists
-          setSelectedServer(currentSelection)
-        } else if (data.servers.length > 0) {
-          // Fallback to first server if current selection doesn't exist or no preservation requested
-          setSelectedServer(data.servers[0].id)
-        }
-      }
+      await fetchServers()
     } catch (err: unknown) {
-      console.error('Error fetching servers:', err)
-      setError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : 'Failed to fetch servers'
-      )
-    } finally {
-      setLoading(false)
+      setError(getErrorMessage(err, 'Failed to fetch servers'))
     }
   }
 
-  const fetchClubDetails = async (clubId: string) => {
+  // Reload a club after changes too broad to apply optimistically (new or closed sessions, bulk edits)
+  const refreshClub = useCallback(async (clubId: string) => {
     try {
       setError(null)
-      
-      // Build URL with query parameters since Edge Function expects GET with query params
-      const functionName = `club?id=${encodeURIComponent(clubId)}&server_id=${encodeURIComponent(selectedServer)}`
-      
-      const { data, error } = await supabase.functions.invoke(functionName, {
-        method: 'GET'
-      })
+      await fetchClub(clubId, selectedServer)
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to fetch club details'))
+    }
+  }, [selectedServer])
 
-      if (error) throw error
-      
-      setSelectedClub(data)
+  // Load whichever club the route points at, including on back/forward navigation.
+  // A cached copy shows immediately and is only refetched once it has gone stale.
+  useEffect(() => {
+    setSelectedMemberIds([]) // Selections never carry over to another club
+    if (!route.clubId || !selectedServer) return
+
+    setError(null)
+    loadClub(route.clubId, selectedServer)
+      .catch((err: unknown) => setError(getErrorMessage(err, 'Failed to fetch club details')))
+  }, [route.clubId, selectedServer])
+
+  // Keep the open club in sync with edits made from other dashboards
+  useClubRealtime(selectedClub, {
+    onChange: (changedByOthers) => {
+      if (!selectedClub) return
+      if (!changedByOthers) {
+        invalidateClub(selectedClub.id) // Our own edits are already applied; pick up server-side effects on the next load
+        return
+      }
+      refreshClub(selectedClub.id)
+      setRemoteUpdateAt(new Date())
+    }
+  })
+
+  const dismissRemoteUpdate = useCallback(() => setRemoteUpdateAt(null), [])
+
+  // Replays writes queued while offline; once any land, reload what they changed
+  const offlineSync = useOfflineSync({
+    onSynced: () => {
+      refreshServers()
+      if (selectedClub) refreshClub(selectedClub.id)
+    }
+  })
+
+  // Show whatever came back from the trash: clubs live in the server list, the rest in the open club
+  const handleRestored = async (item: TrashItem) => {
+    if (item.entity === 'club') {
+      await refreshServers()
+    } else if (selectedClub) {
+      await refreshClub(selectedClub.id)
+    }
+  }
+
+  const handleUndoDelete = async (item: TrashItem) => {
+    try {
+      setError(null)
+      await api.restoreTrashItem(item)
+      setTrashedItem(null)
+      await handleRestored(item)
     } catch (err: unknown) {
-      console.error('Error fetching club details:', err)
-      setError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : 'Failed to fetch club details'
-      )
+      setError(getErrorMessage(err, `Failed to restore ${item.name}`))
     }
   }
 
+  const dismissTrashedItem = useCallback(() => setTrashedItem(null), [])
+
+  const selectClub = (clubId: string) => {
+    navigate({ serverId: selectedServer, clubId, view: toClubView(route.view) })
+  }
+
   // Club handlers
   const confirmDeleteClub = (club: { id: string; name: string }) => {
     setClubToDelete(club)
@@ -129,12 +189,12 @@ export default function ClubsDashboard() {
     setShowAddDiscussionModal(true)
   }
 
-  const handleEditDiscussion = (discussion: any) => {
+  const handleEditDiscussion = (discussion: Discussion) => {
     setEditingDiscussion(discussion)
     setShowAddDiscussionModal(true)
   }
 
-  const handleDeleteDiscussion = (discussion: any) => {
+  const handleDeleteDiscussion = (discussion: Discussion) => {
     setDiscussionToDelete(discussion)
     setShowDeleteDiscussionModal(true)
   }
@@ -145,18 +205,45 @@ export default function ClubsDashboard() {
     setShowMemberModal(true)
   }
 
-  const handleEditMember = (member: any) => {
+  const handleEditMember = (member: Member) => {
     setEditingMember(member)
     setShowMemberModal(true)
   }
 
-  const handleDeleteMember = (member: any) => {
+  const handleDeleteMember = (member: Member) => {
     setMemberToDelete(member)
     setShowDeleteMemberModal(true)
   }
 
+  const handleBulkAction = (action: BulkMemberAction) => {
+    if (!selectedClub) return
+    // Snapshot the selection so the result report isn't affected by the refresh afterwards
+    setBulkMembers(selectedClub.members.filter(member => selectedMemberIds.includes(member.id)))
+    setBulkAction(action)
+  }
+
   const selectedServerData = servers.find(s => s.id === selectedServer)
 
+  // Permissions for the current server/club, used to gate every edit and delete action
+  const clubScope = { serverId: selectedServer, clubId: selectedClub?.id }
+  const canManageClubs = can('manage_clubs', clubScope)
+  const canManageSessions = can('manage_sessions', clubScope)
+  const canManageDiscussions = can('manage_discussions', clubScope)
+  const canManageMembers = can('manage_members', clubScope)
+  const canManageServers = can('manage_servers', { serverId: selectedServer })
+  const canCreateServers = can('manage_servers', {})
+
+  const handleSignOut = async () => {
+    try {
+      await signOut()
+      clearCache()
+      await clearCachedResponses()
+      await clearQueuedWrites()
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to sign out'))
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-900 via-slate-900 to-blue-900 flex items-center justify-center">
@@ -190,23 +277,44 @@ export default function ClubsDashboard() {
               </div>
             </div>
             
-            {/* Material Design Server Selector */}
-            {servers.length > 0 && (
-              <select 
-                value={selectedServer} 
-                onChange={(e) => {
-                  setSelectedServer(e.target.value)
-                  setSelectedClub(null)
-                }}
-                className="bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-2.5 pr-8 text-white font-medium focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200 shadow-lg hover:shadow-xl cursor-pointer"
-              >
-                {servers.map(server => (
-                  <option key={server.id} value={server.id} className="bg-slate-800 text-white">
-                    {server.name}
-                  </option>
-                ))}
-              </select>
-            )}
+            <div className="flex items-center space-x-3">
+              <SyncStatus
+                online={offlineSync.online}
+                writes={offlineSync.writes}
+                onRetry={offlineSync.retry}
+                onDiscard={offlineSync.discard}
+              />
+
+              {/* Material Design Server Selector */}
+              {servers.length > 0 && (
+                <select 
+                  value={selectedServer} 
+                  onChange={(e) => navigate({ serverId: e.target.value, view: 'overview' })}
+                  className="bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-2.5 pr-8 text-white font-medium focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200 shadow-lg hover:shadow-xl cursor-pointer"
+                >
+                  {servers.map(server => (
+                    <option key={server.id} value={server.id} className="bg-slate-800 text-white">
+                      {server.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              {/* Signed-in User */}
+              <div className="hidden sm:flex items-center space-x-3 bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-3 py-1.5 shadow-lg">
+                <div className="text-right">
+                  <p className="text-white text-sm font-medium truncate max-w-[12rem]">{user?.email}</p>
+                  <p className="text-orange-200/80 text-xs font-medium">{getRoleLabel(roleIn(clubScope))}</p>
+                </div>
+                <button
+                  onClick={handleSignOut}
+                  className="text-white/60 hover:text-white text-sm font-medium transition-colors"
+                  title="Sign out"
+                >
+                  Sign out
+                </button>
+              </div>
+            </div>
           </div>
         </div>
       </header>
@@ -226,9 +334,16 @@ export default function ClubsDashboard() {
           <ClubsSidebar
             selectedServerData={selectedServerData}
             selectedClub={selectedClub}
-            onClubSelect={fetchClubDetails}
-            onAddClub={() => setShowAddClubModal(true)}
+            onClubSelect={selectClub}
+            onAddClub={() => openModal('add-club')}
             onDeleteClub={confirmDeleteClub}
+            onClubSettings={(clubId) => navigate({ serverId: selectedServer, clubId, view: 'settings' })}
+            onServerViewSelect={(view) => navigate({ serverId: selectedServer, view })}
+            activeServerView={!route.clubId && isServerView(route.view) ? route.view : null}
+            onExport={() => openModal('export')}
+            onImport={() => openModal('import')}
+            canManageClubs={canManageClubs}
+            canManageServers={canManageServers}
           />
 
           {/* Main Content Area */}
@@ -249,42 +364,140 @@ export default function ClubsDashboard() {
                       <p className="text-white font-mono text-sm bg-blue-500/20 px-2 py-1 rounded">{selectedClub.server_id}</p>
                     </div>
                   </div>
+
+                  {/* Club Views */}
+                  <ClubViewTabs
+                    activeView={toClubView(route.view)}
+                    onViewChange={(view) => navigate({ serverId: selectedServer, clubId: selectedClub.id, view, members: route.members })}
+                    showSettings={canManageClubs}
+                  />
                 </div>
                 
                 {/* Hero Current Reading Card */}
-                <CurrentReadingCard
-                  selectedClub={selectedClub}
-                  onEditBook={() => setShowEditBookModal(true)}
-                  onNewSession={() => setShowNewSessionModal(true)}
-                />
+                {route.view === 'overview' && (
+                  <CurrentReadingCard
+                    selectedClub={selectedClub}
+                    onEditBook={() => openModal('edit-book')}
+                    onNewSession={() => openModal('new-session')}
+                    onCloseSession={() => openModal('close-session')}
+                    canManageSessions={canManageSessions}
+                    canCloseSession={canManageSessions && canManageMembers}
+                  />
+                )}
+
+                {/* Reading History */}
+                {(route.view === 'overview' || route.view === 'history') && (
+                  <ReadingHistory key={selectedClub.id} selectedClub={selectedClub} />
+                )}
 
                 {/* Discussions Timeline */}
-                <DiscussionsTimeline
-                  selectedClub={selectedClub}
-                  onAddDiscussion={handleAddDiscussion}
-                  onEditDiscussion={handleEditDiscussion}
-                  onDeleteDiscussion={handleDeleteDiscussion}
-                />
+                {route.view === 'overview' && (
+                  <DiscussionsTimeline
+                    selectedClub={selectedClub}
+                    onAddDiscussion={handleAddDiscussion}
+                    onEditDiscussion={handleEditDiscussion}
+                    onDeleteDiscussion={handleDeleteDiscussion}
+                    canManageDiscussions={canManageDiscussions}
+                  />
+                )}
 
                 {/* Material Design Members Table */}
-                <MembersTable 
-                  selectedClub={selectedClub}
-                  onAddMember={handleAddMember}
-                  onEditMember={handleEditMember}
-                  onDeleteMember={handleDeleteMember}
-                />
+                {(route.view === 'overview' || route.view === 'members') && (
+                  <MembersTable 
+                    selectedClub={selectedClub}
+                    listQuery={route.members}
+                    onListQueryChange={(members) => navigate({ ...route, members }, { replace: true })}
+                    onAddMember={handleAddMember}
+                    onEditMember={handleEditMember}
+                    onDeleteMember={handleDeleteMember}
+                    onViewMember={(member) => navigate({ serverId: selectedServer, memberId: member.id, view: 'overview' })}
+                    selectedMemberIds={selectedMemberIds}
+                    onSelectionChange={setSelectedMemberIds}
+                    onBulkAction={handleBulkAction}
+                    canManageMembers={canManageMembers}
+                  />
+                )}
+
+                {/* Club Statistics */}
+                {route.view === 'stats' && (
+                  <StatisticsView
+                    title={`${selectedClub.name} Statistics`}
+                    subtitle="Leaderboards and reading trends for this club"
+                    clubs={[selectedClub]}
+                  />
+                )}
+
+                {/* Club Activity */}
+                {route.view === 'activity' && selectedServerData && (
+                  <ActivityView server={selectedServerData} club={selectedClub} onError={setError} />
+                )}
+
+                {/* Club Settings - saving refreshes the server list, where the sidebar gets club names */}
+                {route.view === 'settings' && canManageClubs && (
+                  <ClubSettings
+                    key={selectedClub.id}
+                    club={selectedClub}
+                    onSaved={refreshServers}
+                    onError={setError}
+                  />
+                )}
               </div>
+            ) : !route.clubId && route.view === 'stats' && selectedServerData ? (
+              <ServerStatistics server={selectedServerData} onError={setError} />
+            ) : !route.clubId && route.view === 'calendar' && selectedServerData ? (
+              <CalendarView server={selectedServerData} onError={setError} />
+            ) : !route.clubId && route.view === 'duplicates' && selectedServerData ? (
+              <DuplicateMembersView server={selectedServerData} onError={setError} />
+            ) : !route.clubId && route.view === 'trash' && selectedServerData ? (
+              <TrashView server={selectedServerData} onRestored={handleRestored} onError={setError} />
+            ) : !route.clubId && route.view === 'activity' && selectedServerData ? (
+              <ActivityView server={selectedServerData} onError={setError} />
+            ) : !route.clubId && route.view === 'admin' && selectedServerData && canManageServers ? (
+              <ServerAdminView
+                server={selectedServerData}
+                servers={servers}
+                onAddServer={() => openModal('add-server')}
+                onMoveClub={setClubToMove}
+                onServerRenamed={refreshServers}
+                onError={setError}
+              />
+            ) : route.memberId !== undefined ? (
+              <MemberProfile
+                memberId={route.memberId}
+                servers={servers}
+                onOpenClub={(serverId, clubId) => navigate({ serverId, clubId, view: 'overview' })}
+                onError={setError}
+              />
             ) : (
               <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-12 text-center shadow-xl">
                 <div className="max-w-md mx-auto">
                   <div className="h-20 w-20 bg-blue-500/20 rounded-2xl flex items-center justify-center mx-auto mb-6">
                     <span className="text-4xl">📚</span>
                   </div>
-                  <h3 className="text-2xl font-bold text-white mb-3">Select a Book Club</h3>
-                  <p className="text-white/60 leading-relaxed">Choose a club from the sidebar to explore its members, current reading session, and upcoming discussions.</p>
-                  <div className="mt-6 text-blue-200/50 text-sm">
-                    📖 Ready to dive into some great literature?
-                  </div>
+                  {servers.length === 0 ? (
+                    <>
+                      <h3 className="text-2xl font-bold text-white mb-3">No Servers Yet</h3>
+                      <p className="text-white/60 leading-relaxed">
+                        {canCreateServers ? 'Create a server to start adding book clubs.' : 'Ask an admin to create a server or give you access to one.'}
+                      </p>
+                      {canCreateServers && (
+                        <button
+                          onClick={() => openModal('add-server')}
+                          className="mt-6 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white px-4 py-2 rounded-xl text-sm font-bold transition-all duration-200 hover:scale-105 hover:shadow-lg active:scale-95 shadow-md"
+                        >
+                          + New Server
+                        </button>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <h3 className="text-2xl font-bold text-white mb-3">Select a Book Club</h3>
+                      <p className="text-white/60 leading-relaxed">Choose a club from the sidebar to explore its members, current reading session, and upcoming discussions.</p>
+                      <div className="mt-6 text-blue-200/50 text-sm">
+                        📖 Ready to dive into some great literature?
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
             )}
@@ -292,30 +505,68 @@ export default function ClubsDashboard() {
         </div>
       </div>
 
+      {/* Realtime "updated by someone else" notice */}
+      <RemoteUpdateIndicator updatedAt={remoteUpdateAt} onDismiss={dismissRemoteUpdate} />
+
+      {/* Undo for the last delete */}
+      <UndoToast item={trashedItem} onUndo={handleUndoDelete} onDismiss={dismissTrashedItem} />
+
       {/* All Modals - Clean and Organized! */}
       
+      {/* Add Server Modal */}
+      <AddServerModal
+        isOpen={route.modal === 'add-server' && canCreateServers}
+        onClose={closeModal}
+        onServerCreated={async (serverId) => {
+          await refreshServers()
+          navigate({ serverId, view: 'admin' }) // Open the new server, ready for clubs to be added or moved in
+        }}
+        onError={setError}
+      />
+
       {/* Add Club Modal */}
       <AddClubModal
-        isOpen={showAddClubModal}
-        onClose={() => setShowAddClubModal(false)}
+        isOpen={route.modal === 'add-club' && canManageClubs}
+        onClose={closeModal}
         selectedServer={selectedServer}
         selectedServerData={selectedServerData}
         onClubCreated={async (clubId) => {
-          await fetchServers() // Will preserve selection by default
-          await fetchClubDetails(clubId) // Auto-select the new club
+          await refreshServers()
+          selectClub(clubId) // Auto-select the new club
         }}
         onError={setError}
       />
 
+      {/* Export & Import Modals */}
+      {selectedServerData && (
+        <ExportModal
+          isOpen={route.modal === 'export'}
+          onClose={closeModal}
+          server={selectedServerData}
+          selectedClub={selectedClub}
+          onError={setError}
+        />
+      )}
+      {selectedServerData && (
+        <ImportModal
+          isOpen={route.modal === 'import' && canManageClubs}
+          onClose={closeModal}
+          server={selectedServerData}
+          onImported={async () => {
+            await refreshServers() // New clubs show up in the sidebar
+            selectedServerData.clubs.forEach(club => invalidateClub(club.id)) // Any of them may have changed
+            if (selectedClub) await refreshClub(selectedClub.id)
+          }}
+          onError={setError}
+        />
+      )}
+
       {/* Edit Book Modal */}
       {selectedClub && (
         <EditBookModal
-          isOpen={showEditBookModal}
-          onClose={() => setShowEditBookModal(false)}
+          isOpen={route.modal === 'edit-book' && canManageSessions}
+          onClose={closeModal}
           selectedClub={selectedClub}
-          onBookUpdated={async () => {
-            await fetchClubDetails(selectedClub.id) // Refresh club details to show updated book
-          }}
           onError={setError}
         />
       )}
@@ -323,11 +574,24 @@ export default function ClubsDashboard() {
       {/* New Session Modal */}
       {selectedClub && (
         <NewSessionModal
-          isOpen={showNewSessionModal}
-          onClose={() => setShowNewSessionModal(false)}
+          isOpen={route.modal === 'new-session' && canManageSessions}
+          onClose={closeModal}
           selectedClub={selectedClub}
           onSessionCreated={async () => {
-            await fetchClubDetails(selectedClub.id) // Refresh club details to show new session
+            await refreshClub(selectedClub.id) // The new session's id comes from the server
+          }}
+          onError={setError}
+        />
+      )}
+
+      {/* Close Session Modal */}
+      {selectedClub && (
+        <CloseSessionModal
+          isOpen={route.modal === 'close-session' && canManageSessions && canManageMembers}
+          onClose={closeModal}
+          selectedClub={selectedClub}
+          onSessionClosed={async () => {
+            await refreshClub(selectedClub.id) // Refresh club details to show the closed session in history
           }}
           onError={setError}
         />
@@ -343,9 +607,6 @@ export default function ClubsDashboard() {
           }}
           selectedClub={selectedClub}
           editingDiscussion={editingDiscussion}
-          onDiscussionSaved={async () => {
-            await fetchClubDetails(selectedClub.id) // Refresh club details to show updated discussions
-          }}
           onError={setError}
         />
       )}
@@ -359,11 +620,7 @@ export default function ClubsDashboard() {
             setEditingMember(null)
           }}
           selectedClub={selectedClub}
-          selectedServerData={selectedServerData}
           editingMember={editingMember}
-          onMemberSaved={async () => {
-            await fetchClubDetails(selectedClub.id) // Refresh club details to show updated members
-          }}
           onError={setError}
         />
       )}
@@ -377,8 +634,28 @@ export default function ClubsDashboard() {
             setMemberToDelete(null)
           }}
           memberToDelete={memberToDelete}
-          onMemberDeleted={async () => {
-            await fetchClubDetails(selectedClub.id) // Refresh club details to show updated members
+          selectedClub={selectedClub}
+          onMemberDeleted={(trashed) => {
+            if (trashed) setTrashedItem(trashed)
+          }}
+          onError={setError}
+        />
+      )}
+
+      {/* Bulk Member Modal */}
+      {selectedClub && (
+        <BulkMemberModal
+          isOpen={bulkAction !== null && canManageMembers}
+          onClose={() => setBulkAction(null)}
+          action={bulkAction}
+          members={bulkMembers}
+          selectedClub={selectedClub}
+          serverClubs={selectedServerData?.clubs ?? []}
+          onCompleted={async (queued) => {
+            setSelectedMemberIds([])
+            if (queued) return // Already shown optimistically; the offline sync refreshes once they are sent
+            selectedServerData?.clubs.forEach(club => invalidateClub(club.id)) // Copies land in other clubs
+            await refreshClub(selectedClub.id) // Refresh club details to show bulk changes
           }}
           onError={setError}
         />
@@ -394,8 +671,8 @@ export default function ClubsDashboard() {
           }}
           discussionToDelete={discussionToDelete}
           selectedClub={selectedClub}
-          onDiscussionDeleted={async () => {
-            await fetchClubDetails(selectedClub.id) // Refresh club details to show updated discussions
+          onDiscussionDeleted={(trashed) => {
+            if (trashed) setTrashedItem(trashed)
           }}
           onError={setError}
         />
@@ -410,17 +687,37 @@ export default function ClubsDashboard() {
         }}
         clubToDelete={clubToDelete}
         selectedServer={selectedServer}
-        selectedClub={selectedClub}
-        onClubDeleted={async () => {
-          // Clear selected club if it was the one being deleted
-          if (selectedClub?.id === clubToDelete?.id) {
-            setSelectedClub(null)
+        onClubDeleted={async (trashed) => {
+          setTrashedItem(trashed)
+          // Leave the club's route if it was the one being deleted
+          if (route.clubId === clubToDelete?.id) {
+            navigate({ serverId: selectedServer, view: 'overview' }, { replace: true })
           }
           // Refresh servers to get updated club list
-          await fetchServers() // Will preserve server selection
+          await refreshServers()
         }}
         onError={setError}
       />
+
+      {/* Move Club Modal */}
+      {selectedServerData && (
+        <MoveClubModal
+          isOpen={clubToMove !== null && canManageServers}
+          onClose={() => setClubToMove(null)}
+          clubToMove={clubToMove}
+          sourceServer={selectedServerData}
+          servers={servers}
+          onClubMoved={async (club) => {
+            invalidateClub(club.id) // Cached under its old server
+            await refreshServers()
+            // Follow the club if it was open
+            if (route.clubId === club.id) {
+              navigate({ serverId: club.server_id, clubId: club.id, view: 'overview' }, { replace: true })
+            }
+          }}
+          onError={setError}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { invoke } from './client'
+import type { AuditEntity, AuditEntry, Club, Server } from '../types'
+
+export interface AuditLogQuery {
+  server_id: Server['id']
+  club_id?: Club['id']
+  actor?: string
+  entity?: AuditEntity
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+  before?: string // created_at cursor for the next page
+}
+
+interface AuditLogResponse {
+  entries: AuditEntry[]
+}
+
+export const AUDIT_PAGE_SIZE = 50
+
+// Newest first; pass the created_at of the last entry as `before` to load older ones
+export async function getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+  const data = await invoke<AuditLogResponse>('audit', {
+    method: 'GET',
+    query: { ...query, limit: AUDIT_PAGE_SIZE }
+  })
+  return data?.entries ?? []
+}
@@ -0,0 +1,269 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js'
+import { supabase } from '../supabase'
+import { readRecord, writeRecord, clearRecords } from './offlineStore'
+
+export type EdgeFunction = 'server' | 'club' | 'session' | 'discussion' | 'member' | 'points' | 'discord' | 'trash' | 'audit'
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+export interface RequestOptions {
+  method: HttpMethod
+  query?: Record<string, string | number | undefined>
+  body?: object
+}
+
+export interface EdgeRequest extends RequestOptions {
+  fn: EdgeFunction
+  // Sent as x-request-id on writes. A replayed write keeps the id of its first attempt,
+  // so a function that already committed it answers with the original result instead of writing twice
+  request_id?: string
+}
+
+interface CachedResponse {
+  data: unknown
+  saved_at: string
+}
+
+/**
+ * Normalized error for every failed Edge Function call.
+ * `status` is only set when the function actually answered.
+ */
+export class ApiError extends Error {
+  readonly fn: EdgeFunction
+  readonly status?: number
+
+  constructor(fn: EdgeFunction, message: string, status?: number) {
+    super(message)
+    this.name = 'ApiError'
+    this.fn = fn
+    this.status = status
+  }
+}
+
+/**
+ * The request never reached the function: the browser is offline or the network dropped.
+ * `request` is kept so a write can be queued and replayed later.
+ */
+export class NetworkError extends ApiError {
+  readonly request: EdgeRequest
+
+  constructor(request: EdgeRequest, message: string) {
+    super(request.fn, message)
+    this.name = 'NetworkError'
+    this.request = request
+  }
+}
+
+/**
+ * 409 answer to a write made against a stale copy.
+ * `current` is the server's copy, or null when the record no longer exists.
+ */
+export class ConflictError<T = unknown> extends ApiError {
+  readonly current: T | null
+
+  constructor(fn: EdgeFunction, message: string, current: T | null) {
+    super(fn, message, 409)
+    this.name = 'ConflictError'
+    this.current = current
+  }
+}
+
+const REQUEST_ID_HEADER = 'x-request-id'
+
+const MAX_RETRIES = 2
+const RETRY_DELAY_MS = 500
+
+// The functions stamp each row a write touches with its request id as last_request_id,
+// which lets realtime listeners tell our own writes apart from other admins'
+const MAX_TRACKED_REQUEST_IDS = 200
+const sentRequestIds = new Set<string>()
+
+const trackRequestId = (requestId: string) => {
+  sentRequestIds.add(requestId)
+  for (const oldest of sentRequestIds) {
+    if (sentRequestIds.size <= MAX_TRACKED_REQUEST_IDS) break
+    sentRequestIds.delete(oldest)
+  }
+}
+
+export function isOwnRequest(requestId: unknown): boolean {
+  return typeof requestId === 'string' && sentRequestIds.has(requestId)
+}
+
+// A deleted row's realtime event only carries its primary key, so it is ours if one of our
+// writes is in flight or answered too recently for its events to have arrived yet
+const REALTIME_SETTLE_MS = 2000
+const pendingRequestIds = new Set<string>()
+
+export function hasPendingRequests(): boolean {
+  return pendingRequestIds.size > 0
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Edge Functions read their parameters from the query string, so they travel in the function name
+const buildFunctionName = (fn: EdgeFunction, query?: RequestOptions['query']) => {
+  if (!query) return fn
+
+  const params = Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+
+  return params.length > 0 ? `${fn}?${params.join('&')}` : fn
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false
+
+// Turn whatever supabase-js handed back into an ApiError, preferring the function's own error message
+const toApiError = async (request: EdgeRequest, err: unknown): Promise<ApiError> => {
+  const { fn } = request
+  if (err instanceof ApiError) return err
+
+  if (err instanceof FunctionsFetchError) {
+    return new NetworkError(request, getErrorMessage(err, `Could not reach ${fn}`))
+  }
+
+  if (err instanceof FunctionsHttpError) {
+    const response = err.context as Response
+    let message = err.message
+    let current: unknown = null
+    try {
+      const body = await response.clone().json()
+      if (body && typeof body === 'object') {
+        if ('error' in body && body.error) message = String(body.error)
+        if ('current' in body) current = body.current
+      }
+    } catch {
+      // Non-JSON error body, keep the generic message
+    }
+    return response.status === 409
+      ? new ConflictError(fn, message, current)
+      : new ApiError(fn, message, response.status)
+  }
+
+  return new ApiError(fn, getErrorMessage(err, `Request to ${fn} failed`))
+}
+
+// Only network/relay failures and 5xx answers are worth another try, and never while the browser is offline
+const isRetryable = (err: ApiError, cause: unknown) =>
+  !isOffline() && (
+    cause instanceof FunctionsFetchError ||
+    cause instanceof FunctionsRelayError ||
+    (err.status !== undefined && err.status >= 500)
+  )
+
+// Cache failures only cost the offline copy, so they are logged and otherwise ignored
+const saveResponse = (functionName: string, data: unknown) => {
+  const record: CachedResponse = { data, saved_at: new Date().toISOString() }
+  writeRecord('responses', record, functionName).catch(err => {
+    console.warn(`[api] Could not cache ${functionName}:`, err)
+  })
+}
+
+const loadResponse = async <T>(functionName: string): Promise<T | null> => {
+  try {
+    const record = await readRecord<CachedResponse>('responses', functionName)
+    return record ? (record.data as T) : null
+  } catch (err: unknown) {
+    console.warn(`[api] Could not read cached ${functionName}:`, err)
+    return null
+  }
+}
+
+// One call to the function, with the retries its method allows
+const send = async <T>(request: EdgeRequest, functionName: string, attempts: number): Promise<T> => {
+  const { fn, ...options } = request
+
+  if (isOffline()) {
+    throw new NetworkError(request, `You are offline, so ${fn} could not be reached`)
+  }
+
+  // The functions store this on the audit entries a mutation produces, so a log line can be traced to them
+  const headers: Record<string, string> = request.request_id ? { [REQUEST_ID_HEADER]: request.request_id } : {}
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.method !== 'GET') {
+      // The request id is always logged so an audit entry can be traced; bodies carry member names, so only in development
+      console.log(`[api] ${options.method} ${functionName} (${headers[REQUEST_ID_HEADER]})`, import.meta.env.DEV ? options.body ?? '' : '')
+      if (request.request_id) trackRequestId(request.request_id)
+    }
+
+    const { data, error } = await supabase.functions.invoke(functionName, {
+      method: options.method,
+      body: options.body,
+      headers
+    })
+
+    if (!error) return data as T
+
+    const apiError = await toApiError(request, error)
+    if (attempt >= attempts || !isRetryable(apiError, error)) {
+      console.error(`[api] ${options.method} ${functionName} failed:`, apiError)
+      throw apiError
+    }
+
+    console.warn(`[api] ${options.method} ${functionName} failed, retrying (${attempt}/${MAX_RETRIES})`)
+    await sleep(RETRY_DELAY_MS * attempt)
+  }
+}
+
+/**
+ * Invoke an Edge Function and return its parsed response.
+ * GET requests are retried on transient failures; mutations never are.
+ * Successful GETs are kept in IndexedDB and served from there when the network is unreachable.
+ */
+export async function invoke<T>(fn: EdgeFunction, options: RequestOptions & Pick<EdgeRequest, 'request_id'>): Promise<T> {
+  const functionName = buildFunctionName(fn, options.query)
+  const attempts = options.method === 'GET' ? MAX_RETRIES + 1 : 1
+  const request: EdgeRequest = {
+    fn,
+    ...options,
+    request_id: options.method === 'GET' ? undefined : options.request_id ?? crypto.randomUUID()
+  }
+
+  const requestId = request.request_id
+  if (requestId) pendingRequestIds.add(requestId)
+
+  try {
+    const data = await send<T>(request, functionName, attempts)
+    if (options.method === 'GET') saveResponse(functionName, data)
+    return data
+  } catch (err: unknown) {
+    if (options.method === 'GET' && err instanceof NetworkError) {
+      const cached = await loadResponse<T>(functionName)
+      if (cached !== null) {
+        console.warn(`[api] GET ${functionName} unreachable, serving the cached copy`)
+        return cached
+      }
+    }
+    throw err
+  } finally {
+    if (requestId) setTimeout(() => pendingRequestIds.delete(requestId), REALTIME_SETTLE_MS)
+  }
+}
+
+/**
+ * Last successful response of a GET, or null when it was never cached.
+ * Lets views render instantly (and offline) before the network copy arrives.
+ */
+export async function readCachedResponse<T>(fn: EdgeFunction, query?: RequestOptions['query']): Promise<T | null> {
+  return loadResponse<T>(buildFunctionName(fn, query))
+}
+
+// Called on sign-out so the next user never sees the previous one's data
+export async function clearCachedResponses(): Promise<void> {
+  try {
+    await clearRecords('responses')
+  } catch (err: unknown) {
+    console.warn('[api] Could not clear cached responses:', err)
+  }
+}
+
+/**
+ * Extract a human readable message from anything thrown by the API layer.
+ */
+export function getErrorMessage(err: unknown, fallback: string): string {
+  return err && typeof err === 'object' && 'message' in err && err.message
+    ? String(err.message)
+    : fallback
+}
@@ -0,0 +1,72 @@
+import { invoke, readCachedResponse } from './client'
+import type { Club, Server, TrashItem } from '../types'
+
+export interface CreateClubRequest extends Pick<Club, 'id' | 'name' | 'server_id'> {
+  discord_channel: string | null
+}
+
+// Shame list changes are deltas so concurrent edits to other members aren't overwritten
+export type UpdateClubRequest = Pick<Club, 'id' | 'server_id'> &
+  Partial<Pick<Club, 'name' | 'discord_channel' | 'rules'>> & {
+    shame_list_add?: Club['shame_list']
+    shame_list_remove?: Club['shame_list']
+  }
+
+export interface MoveClubRequest {
+  id: Club['id']
+  server_id: Server['id'] // Where the club is now
+  to_server_id: Server['id']
+}
+
+interface ClubResponse {
+  club: Club
+}
+
+interface TrashedResponse {
+  trashed: TrashItem
+}
+
+export async function getClub(clubId: string, serverId: string): Promise<Club> {
+  return invoke<Club>('club', {
+    method: 'GET',
+    query: { id: clubId, server_id: serverId }
+  })
+}
+
+// Last-known copy of a club from the offline cache, or null when it was never loaded
+export async function getCachedClub(clubId: string, serverId: string): Promise<Club | null> {
+  return readCachedResponse<Club>('club', { id: clubId, server_id: serverId })
+}
+
+// The server list only carries club summaries; load every club on a server in full
+export async function getServerClubs(server: Pick<Server, 'id' | 'clubs'>): Promise<Club[]> {
+  return Promise.all(server.clubs.map(club => getClub(club.id, server.id)))
+}
+
+export async function createClub(request: CreateClubRequest): Promise<void> {
+  await invoke('club', { method: 'POST', body: request })
+}
+
+export async function updateClub(request: UpdateClubRequest): Promise<void> {
+  await invoke('club', { method: 'PUT', body: request })
+}
+
+// Soft delete: the club moves to the server's trash along with its sessions, discussions and memberships
+export async function deleteClub(clubId: string, serverId: string): Promise<TrashItem> {
+  const data = await invoke<TrashedResponse>('club', {
+    method: 'DELETE',
+    query: { id: clubId, server_id: serverId }
+  })
+  return data.trashed
+}
+
+/**
+ * Move a club to another server in a single transaction: the club's server_id
+ * changes, its sessions, discussions, memberships and shame list go with it, and
+ * members keep their memberships in clubs that stay behind. Answers with the club
+ * as it now is on the destination server.
+ */
+export async function moveClub(request: MoveClubRequest): Promise<Club> {
+  const data = await invoke<ClubResponse>('club', { method: 'POST', query: { action: 'move' }, body: request })
+  return data.club
+}
@@ -0,0 +1,26 @@
+import { invoke } from './client'
+import type { Club } from '../types'
+
+export interface PostDiscordMessageRequest {
+  channel: NonNullable<Club['discord_channel']>
+  content: string
+}
+
+export interface ScheduleDiscordRemindersRequest {
+  club_id: Club['id']
+  channel: Club['discord_channel']
+  reminders: { send_at: string; content: string }[]
+}
+
+// The discord Edge Function holds the bot token, so it never reaches the browser
+export async function postDiscordMessage(request: PostDiscordMessageRequest): Promise<void> {
+  await invoke('discord', { method: 'POST', body: request })
+}
+
+/**
+ * Replace every pending reminder of a club; an empty list cancels them all.
+ * The Edge Function posts each one to the channel at its send_at time.
+ */
+export async function scheduleDiscordReminders(request: ScheduleDiscordRemindersRequest): Promise<void> {
+  await invoke('discord', { method: 'PUT', query: { action: 'reminders' }, body: request })
+}
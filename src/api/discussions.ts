@@ -0,0 +1,47 @@
+import { invoke } from './client'
+import type { Discussion, Session, TrashItem } from '../types'
+
+export interface CreateDiscussionRequest extends Pick<Discussion, 'title' | 'date' | 'location'> {
+  session_id: Session['id']
+}
+
+// A null location clears it on the server, undefined leaves it untouched
+export interface UpdateDiscussionRequest extends Pick<Discussion, 'id' | 'title' | 'date'> {
+  location?: string | null
+  // updated_at of the copy being edited; the server answers 409 if it has moved on
+  expected_updated_at?: string
+}
+
+interface DiscussionResponse {
+  discussion: Discussion
+}
+
+interface TrashedResponse {
+  trashed: TrashItem
+}
+
+export async function createDiscussion(request: CreateDiscussionRequest): Promise<Discussion> {
+  const data = await invoke<DiscussionResponse>('discussion', { method: 'POST', body: request })
+  return data.discussion
+}
+
+/**
+ * Update a single discussion. Throws ConflictError<Discussion> when the server copy
+ * changed (or was deleted) after `expected_updated_at`.
+ */
+export async function updateDiscussion(request: UpdateDiscussionRequest): Promise<Discussion> {
+  const data = await invoke<DiscussionResponse>('discussion', { method: 'PUT', body: request })
+  return data.discussion
+}
+
+/**
+ * Move a single discussion to the trash. Throws ConflictError<Discussion> when the
+ * server copy changed after `expectedUpdatedAt`.
+ */
+export async function deleteDiscussion(discussionId: Discussion['id'], expectedUpdatedAt?: string): Promise<TrashItem> {
+  const data = await invoke<TrashedResponse>('discussion', {
+    method: 'DELETE',
+    query: { id: discussionId, expected_updated_at: expectedUpdatedAt }
+  })
+  return data.trashed
+}
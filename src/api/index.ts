@@ -0,0 +1,79 @@
+import { getServers, getCachedServers, createServer, updateServer } from './servers'
+import { getClub, getCachedClub, getServerClubs, createClub, updateClub, deleteClub, moveClub } from './clubs'
+import { createSession, updateSession, closeSession } from './sessions'
+import { createDiscussion, updateDiscussion, deleteDiscussion } from './discussions'
+import { getMember, createMember, updateMember, incrementBooksRead, saveClubMember, deleteMember, addMemberToClub, removeMemberFromClub, mergeMembers } from './members'
+import { getPointsLedger, createPointsEntry, reversePointsEntry } from './points'
+import { postDiscordMessage, scheduleDiscordReminders } from './discord'
+import { getTrash, restoreTrashItem, purgeTrashItem } from './trash'
+import { getAuditLog } from './audit'
+
+export { ApiError, NetworkError, ConflictError, getErrorMessage, isOwnRequest, hasPendingRequests, clearCachedResponses } from './client'
+export {
+  sendOrQueue,
+  getQueuedWrites,
+  subscribeToQueue,
+  replayQueue,
+  retryQueuedWrite,
+  discardQueuedWrite,
+  clearQueuedWrites,
+  registerFollowUp
+} from './offlineQueue'
+export type { FollowUp, QueuedWrite, QueuedWriteStatus } from './offlineQueue'
+export { AUDIT_PAGE_SIZE } from './audit'
+export type { CreateServerRequest, UpdateServerRequest } from './servers'
+export type { CreateClubRequest, UpdateClubRequest, MoveClubRequest } from './clubs'
+export type { CreateSessionRequest, UpdateSessionRequest, CloseSessionRequest } from './sessions'
+export type { CreateDiscussionRequest, UpdateDiscussionRequest } from './discussions'
+export type {
+  CreateMemberRequest,
+  UpdateMemberRequest,
+  IncrementBooksReadRequest,
+  SaveClubMemberRequest,
+  ShameListChange,
+  ClubMembershipRequest,
+  MergeMembersRequest
+} from './members'
+export type { CreatePointsEntryRequest } from './points'
+export type { PostDiscordMessageRequest, ScheduleDiscordRemindersRequest } from './discord'
+export type { TrashItemRef } from './trash'
+export type { AuditLogQuery } from './audit'
+
+// Single entry point for every Edge Function call made by the dashboard
+export const api = {
+  getServers,
+  getCachedServers,
+  createServer,
+  updateServer,
+  getClub,
+  getCachedClub,
+  getServerClubs,
+  createClub,
+  updateClub,
+  deleteClub,
+  moveClub,
+  createSession,
+  updateSession,
+  closeSession,
+  createDiscussion,
+  updateDiscussion,
+  deleteDiscussion,
+  getMember,
+  createMember,
+  updateMember,
+  incrementBooksRead,
+  saveClubMember,
+  deleteMember,
+  addMemberToClub,
+  removeMemberFromClub,
+  mergeMembers,
+  getPointsLedger,
+  createPointsEntry,
+  reversePointsEntry,
+  postDiscordMessage,
+  scheduleDiscordReminders,
+  getTrash,
+  restoreTrashItem,
+  purgeTrashItem,
+  getAuditLog
+}
@@ -0,0 +1,114 @@
+import { invoke } from './client'
+import type { Club, Member, TrashItem } from '../types'
+
+export type CreateMemberRequest = Omit<Member, 'id'>
+
+export type UpdateMemberRequest = Pick<Member, 'id'> &
+  Partial<Pick<Member, 'name' | 'points' | 'books_read'>>
+
+export type ShameListChange = 'add' | 'remove'
+
+export interface SaveClubMemberRequest {
+  club_id: Club['id']
+  // Without an id the member is created and joined to the club. Points are only
+  // accepted on creation, where they become the opening ledger entry.
+  member: Pick<Member, 'name' | 'books_read'> & Partial<Pick<Member, 'id' | 'points'>>
+  // Omitted leaves the member's shame list status in this club untouched
+  shame_list?: ShameListChange
+}
+
+export interface ClubMembershipRequest {
+  club_id: Club['id']
+  member_id: Member['id']
+}
+
+export interface IncrementBooksReadRequest {
+  id: Member['id']
+  amount: number
+}
+
+export interface MergeMembersRequest {
+  target_id: Member['id']
+  source_ids: Member['id'][]
+}
+
+interface MemberResponse {
+  member: Member
+}
+
+interface TrashedResponse {
+  trashed: TrashItem
+}
+
+export async function getMember(memberId: Member['id']): Promise<Member> {
+  const data = await invoke<MemberResponse>('member', { method: 'GET', query: { id: memberId } })
+  return data.member
+}
+
+export async function createMember(request: CreateMemberRequest): Promise<Member> {
+  const data = await invoke<MemberResponse>('member', { method: 'POST', body: request })
+  return data.member
+}
+
+export async function updateMember(request: UpdateMemberRequest): Promise<void> {
+  await invoke('member', { method: 'PUT', body: request })
+}
+
+// Adds to the stored count on the server, so concurrent increments are not lost to a stale read
+export async function incrementBooksRead(request: IncrementBooksReadRequest): Promise<void> {
+  await invoke('member', { method: 'POST', query: { action: 'increment' }, body: request })
+}
+
+/**
+ * Create or update a member and change their shame list status in the club
+ * as a single transaction, so neither half can be saved without the other.
+ */
+export async function saveClubMember(request: SaveClubMemberRequest): Promise<Member> {
+  const { member, club_id, shame_list } = request
+  const isNew = member.id === undefined
+
+  const data = await invoke<MemberResponse>('member', {
+    method: isNew ? 'POST' : 'PUT',
+    body: {
+      ...member,
+      ...(isNew && { clubs: [club_id] }),
+      club_id,
+      shame_list
+    }
+  })
+  return data.member
+}
+
+/**
+ * Soft delete from every club: the member moves to the trash with all their club
+ * memberships and shame list entries. Reaches past any one club, so it needs
+ * manage_clubs on the server; use removeMemberFromClub to leave a single club.
+ */
+export async function deleteMember(memberId: Member['id']): Promise<TrashItem> {
+  const data = await invoke<TrashedResponse>('member', { method: 'DELETE', query: { id: memberId } })
+  return data.trashed
+}
+
+// Join an existing member to another club; points and books read are shared across their clubs
+export async function addMemberToClub(request: ClubMembershipRequest): Promise<void> {
+  await invoke('member', { method: 'POST', query: { action: 'join' }, body: request })
+}
+
+// Unlike deleteMember, only the membership (and shame list entry) in this club moves to the trash
+export async function removeMemberFromClub(request: ClubMembershipRequest): Promise<TrashItem> {
+  const data = await invoke<TrashedResponse>('member', {
+    method: 'DELETE',
+    query: { id: request.member_id, club_id: request.club_id }
+  })
+  return data.trashed
+}
+
+/**
+ * Fold duplicate members into one in a single transaction: their ledger entries
+ * move to the target, books read add up, club memberships and shame list entries
+ * are rewritten to the target's id, and the source rows are deleted.
+ */
+export async function mergeMembers(request: MergeMembersRequest): Promise<Member> {
+  const data = await invoke<MemberResponse>('member', { method: 'POST', query: { action: 'merge' }, body: request })
+  return data.member
+}
@@ -0,0 +1,253 @@
+import { ConflictError, NetworkError, getErrorMessage, invoke } from './client'
+import type { EdgeRequest } from './client'
+import { readAllRecords, writeRecord, deleteRecord, clearRecords } from './offlineStore'
+
+/**
+ * pending: waiting for the network; sending: being replayed right now;
+ * failed: the function rejected it; conflict: the record changed on the server meanwhile.
+ */
+export type QueuedWriteStatus = 'pending' | 'sending' | 'failed' | 'conflict'
+
+/**
+ * Work that only makes sense once a write has reached the server, such as a
+ * Discord post. Plain data, so it survives a reload alongside the write.
+ */
+export interface FollowUp {
+  kind: string
+  payload: unknown
+}
+
+export interface QueuedWrite {
+  id: string
+  label: string // What the admin did, e.g. "Edit book in Sci-Fi Club"
+  request: EdgeRequest
+  queued_at: string
+  status: QueuedWriteStatus
+  error?: string
+  follow_ups?: FollowUp[]
+}
+
+type QueueListener = (writes: QueuedWrite[]) => void
+type FollowUpHandler = (payload: unknown) => Promise<void> | void
+
+let writes: QueuedWrite[] = []
+let loaded: Promise<void> | null = null
+let replaying: Promise<number> | null = null
+const listeners = new Set<QueueListener>()
+const followUpHandlers = new Map<string, FollowUpHandler>()
+
+const notify = () => {
+  listeners.forEach(listener => listener(writes))
+}
+
+// Writes survive reloads; read them back once per page load
+const loadQueue = () => {
+  loaded ??= readAllRecords<QueuedWrite>('queue')
+    .then(stored => {
+      // A reload mid-replay leaves items marked as sending; they never reached a verdict
+      const restored = stored.map(write => (write.status === 'sending' ? { ...write, status: 'pending' as const } : write))
+      writes = [...restored, ...writes].sort((a, b) => a.queued_at.localeCompare(b.queued_at))
+      notify()
+    })
+    .catch(err => {
+      console.warn('[offline] Could not load queued writes:', err)
+    })
+  return loaded
+}
+
+const persistWrite = async (write: QueuedWrite) => {
+  try {
+    await writeRecord('queue', write)
+  } catch (err: unknown) {
+    console.warn('[offline] Could not persist queued write, it will be lost on reload:', err)
+  }
+}
+
+const addWrite = async (write: QueuedWrite) => {
+  writes = [...writes, write]
+  notify()
+  await persistWrite(write)
+}
+
+// Status changes only touch writes still in the queue, so a write cleared mid-replay stays gone
+const updateWrite = async (write: QueuedWrite) => {
+  if (!writes.some(other => other.id === write.id)) return
+  writes = writes.map(other => (other.id === write.id ? write : other))
+  notify()
+  await persistWrite(write)
+}
+
+const removeWrite = async (id: string) => {
+  writes = writes.filter(write => write.id !== id)
+  notify()
+  try {
+    await deleteRecord('queue', id)
+  } catch (err: unknown) {
+    console.warn('[offline] Could not remove queued write:', err)
+  }
+}
+
+export function getQueuedWrites(): QueuedWrite[] {
+  return writes
+}
+
+export function subscribeToQueue(listener: QueueListener): () => void {
+  listeners.add(listener)
+  loadQueue()
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Handle follow-ups of `kind`. Registered by the module that creates them, so
+ * writes queued before a reload still find their handler.
+ */
+export function registerFollowUp<P>(kind: string, handler: (payload: P) => Promise<void> | void): void {
+  followUpHandlers.set(kind, handler as FollowUpHandler)
+}
+
+// Follow-ups are best-effort: the write they follow has already been saved
+const runFollowUps = async (followUps: FollowUp[]) => {
+  for (const followUp of followUps) {
+    const handler = followUpHandlers.get(followUp.kind)
+    if (!handler) {
+      console.warn(`[offline] No handler for follow-up ${followUp.kind}`)
+      continue
+    }
+    try {
+      await handler(followUp.payload)
+    } catch (err: unknown) {
+      console.warn(`[offline] Follow-up ${followUp.kind} failed:`, err)
+    }
+  }
+}
+
+/**
+ * Send a single write from a modal. When the network is unreachable it is queued
+ * under `label` for replay and null is returned, so the modal can close as if saved.
+ * Any other failure is thrown as usual. `followUps` run once the write succeeds,
+ * right away or when the queued write replays, and never when it is discarded.
+ * `queuedFollowUps` replaces them for a queued write, e.g. when a batch reports
+ * its sent writes together but a replayed one has to report itself.
+ */
+export async function sendOrQueue<T>(
+  label: string,
+  write: () => Promise<T>,
+  followUps: FollowUp[] = [],
+  queuedFollowUps = followUps
+): Promise<T | null> {
+  try {
+    const result = await write()
+    void runFollowUps(followUps)
+    return result
+  } catch (err: unknown) {
+    if (!(err instanceof NetworkError) || err.request.method === 'GET') throw err
+
+    await loadQueue()
+    await addWrite({
+      id: crypto.randomUUID(),
+      label,
+      request: err.request,
+      queued_at: new Date().toISOString(),
+      status: 'pending',
+      follow_ups: queuedFollowUps
+    })
+    console.log(`[offline] Queued "${label}" until the connection is back`)
+    return null
+  }
+}
+
+// offline: the network dropped again, which stops the replay
+type ReplayOutcome = 'synced' | 'rejected' | 'offline'
+
+const replayWrite = async (write: QueuedWrite): Promise<ReplayOutcome> => {
+  const { fn, ...options } = write.request
+  await updateWrite({ ...write, status: 'sending', error: undefined })
+
+  try {
+    await invoke(fn, options)
+    await removeWrite(write.id)
+    void runFollowUps(write.follow_ups ?? [])
+    return 'synced'
+  } catch (err: unknown) {
+    if (err instanceof NetworkError) {
+      await updateWrite({ ...write, status: 'pending' })
+      return 'offline'
+    }
+    await updateWrite({
+      ...write,
+      status: err instanceof ConflictError ? 'conflict' : 'failed',
+      error: getErrorMessage(err, `Failed to sync ${write.label}`)
+    })
+    return 'rejected'
+  }
+}
+
+/**
+ * Send every pending write in the order it was made. Failed and conflicting writes
+ * are left for the admin to retry or discard. Resolves to the number of writes synced.
+ */
+export function replayQueue(): Promise<number> {
+  replaying ??= (async () => {
+    await loadQueue()
+    const attempted = new Set<string>()
+    let synced = 0
+
+    // Writes retried while this runs are picked up too
+    for (;;) {
+      const write = writes.find(candidate => candidate.status === 'pending' && !attempted.has(candidate.id))
+      if (!write) return synced
+
+      attempted.add(write.id)
+      const outcome = await replayWrite(write)
+      if (outcome === 'offline') return synced
+      if (outcome === 'synced') synced++
+    }
+  })().finally(() => {
+    replaying = null
+  })
+  return replaying
+}
+
+/**
+ * Put a failed or conflicting write back in line and replay the queue.
+ * With `overwrite`, a conflicting write drops its expected_updated_at so it replaces the server copy.
+ */
+export async function retryQueuedWrite(id: string, overwrite = false): Promise<number> {
+  const write = writes.find(candidate => candidate.id === id)
+  if (!write) return 0
+
+  const request = { ...write.request }
+  if (overwrite) {
+    if (request.body) {
+      const body: Record<string, unknown> = { ...request.body }
+      delete body.expected_updated_at
+      request.body = body
+    }
+    if (request.query) {
+      const query = { ...request.query }
+      delete query.expected_updated_at
+      request.query = query
+    }
+  }
+
+  await updateWrite({ ...write, request, status: 'pending', error: undefined })
+  return replayQueue()
+}
+
+export async function discardQueuedWrite(id: string): Promise<void> {
+  await removeWrite(id)
+}
+
+// Called on sign-out: queued writes were made under the previous user's session and must not replay under the next one
+export async function clearQueuedWrites(): Promise<void> {
+  await loadQueue()
+  writes = []
+  notify()
+  try {
+    await clearRecords('queue')
+  } catch (err: unknown) {
+    console.warn('[offline] Could not clear queued writes:', err)
+  }
+}
@@ -0,0 +1,56 @@
+// Minimal promise wrapper around the dashboard's IndexedDB database
+
+const DB_NAME = 'bookclub-dashboard'
+const DB_VERSION = 1
+
+// responses: last successful GET per function name; queue: writes made while offline
+export type OfflineStoreName = 'responses' | 'queue'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('responses')
+      request.result.createObjectStore('queue', { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return dbPromise
+}
+
+const run = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function readRecord<T>(storeName: OfflineStoreName, key: string): Promise<T | undefined> {
+  return run<T | undefined>(storeName, 'readonly', store => store.get(key))
+}
+
+export async function readAllRecords<T>(storeName: OfflineStoreName): Promise<T[]> {
+  return run<T[]>(storeName, 'readonly', store => store.getAll())
+}
+
+// `key` is only needed for stores without a keyPath
+export async function writeRecord(storeName: OfflineStoreName, value: unknown, key?: string): Promise<void> {
+  await run(storeName, 'readwrite', store => store.put(value, key))
+}
+
+export async function deleteRecord(storeName: OfflineStoreName, key: string): Promise<void> {
+  await run(storeName, 'readwrite', store => store.delete(key))
+}
+
+export async function clearRecords(storeName: OfflineStoreName): Promise<void> {
+  await run(storeName, 'readwrite', store => store.clear())
+}
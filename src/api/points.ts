@@ -0,0 +1,37 @@
+import { invoke } from './client'
+import type { Member, PointsEntry } from '../types'
+
+export type CreatePointsEntryRequest = Pick<PointsEntry, 'member_id' | 'amount' | 'reason' | 'session_id'>
+
+interface PointsLedgerResponse {
+  entries: PointsEntry[]
+}
+
+interface PointsEntryResponse {
+  entry: PointsEntry
+}
+
+export async function getPointsLedger(memberId: Member['id']): Promise<PointsEntry[]> {
+  const data = await invoke<PointsLedgerResponse>('points', {
+    method: 'GET',
+    query: { member_id: memberId }
+  })
+  return data?.entries ?? []
+}
+
+// The author is taken from the signed-in user on the server
+export async function createPointsEntry(request: CreatePointsEntryRequest): Promise<PointsEntry> {
+  const data = await invoke<PointsEntryResponse>('points', { method: 'POST', body: request })
+  return data.entry
+}
+
+/**
+ * Record a new entry that cancels out an earlier one; entries are never edited or deleted.
+ */
+export async function reversePointsEntry(entryId: PointsEntry['id'], reason: string): Promise<PointsEntry> {
+  const data = await invoke<PointsEntryResponse>('points', {
+    method: 'POST',
+    body: { reverses_id: entryId, reason }
+  })
+  return data.entry
+}
@@ -0,0 +1,30 @@
+import { invoke, readCachedResponse } from './client'
+import type { Server } from '../types'
+
+export type CreateServerRequest = Pick<Server, 'id' | 'name'>
+
+export type UpdateServerRequest = Pick<Server, 'id' | 'name'>
+
+interface GetServersResponse {
+  servers: Server[]
+}
+
+export async function getServers(): Promise<Server[]> {
+  const data = await invoke<GetServersResponse>('server', { method: 'GET' })
+  return data?.servers ?? []
+}
+
+// Last-known server list from the offline cache, or null before the first successful load
+export async function getCachedServers(): Promise<Server[] | null> {
+  const data = await readCachedResponse<GetServersResponse>('server')
+  return data ? data.servers ?? [] : null
+}
+
+// Only admins whose grant is not tied to a server may create one
+export async function createServer(request: CreateServerRequest): Promise<void> {
+  await invoke('server', { method: 'POST', body: request })
+}
+
+export async function updateServer(request: UpdateServerRequest): Promise<void> {
+  await invoke('server', { method: 'PUT', body: request })
+}
@@ -0,0 +1,40 @@
+import { invoke } from './client'
+import type { Book, Club, Discussion, Session } from '../types'
+import type { CloseOutResult } from '../sessions'
+
+export interface CreateSessionRequest {
+  club_id: string
+  book: Book
+  due_date: string
+  // Created together with the session so a planned schedule is saved in one go
+  discussions?: Pick<Discussion, 'title' | 'date' | 'location'>[]
+}
+
+export interface UpdateSessionRequest {
+  id: Session['id']
+  book?: Book
+  due_date?: string
+}
+
+export interface CloseSessionRequest {
+  id: Session['id']
+  club_id: Club['id']
+  results: CloseOutResult[]
+}
+
+export async function createSession(request: CreateSessionRequest): Promise<void> {
+  await invoke('session', { method: 'POST', body: request })
+}
+
+export async function updateSession(request: UpdateSessionRequest): Promise<void> {
+  await invoke('session', { method: 'PUT', body: request })
+}
+
+/**
+ * Close the active session in one transaction: apply every member's books read,
+ * points (as ledger entries tied to the session) and shame list change, then
+ * move the session into past_sessions.
+ */
+export async function closeSession(request: CloseSessionRequest): Promise<void> {
+  await invoke('session', { method: 'POST', query: { action: 'close' }, body: request })
+}
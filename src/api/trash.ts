@@ -0,0 +1,30 @@
+import { invoke } from './client'
+import type { Server, TrashItem } from '../types'
+
+// club_id tells a trashed club membership apart from the member trashed everywhere
+export type TrashItemRef = Pick<TrashItem, 'entity' | 'id' | 'club_id'>
+
+interface TrashResponse {
+  items: TrashItem[]
+}
+
+// Everything deleted on a server that is still inside the retention window, newest first
+export async function getTrash(serverId: Server['id']): Promise<TrashItem[]> {
+  const data = await invoke<TrashResponse>('trash', {
+    method: 'GET',
+    query: { server_id: serverId }
+  })
+  return data?.items ?? []
+}
+
+// Put the record back exactly as it was, including its club associations and shame list entries
+export async function restoreTrashItem(item: TrashItemRef): Promise<void> {
+  await invoke('trash', { method: 'POST', query: { action: 'restore' }, body: item })
+}
+
+export async function purgeTrashItem(item: TrashItemRef): Promise<void> {
+  await invoke('trash', {
+    method: 'DELETE',
+    query: { entity: item.entity, id: item.id, club_id: item.club_id }
+  })
+}
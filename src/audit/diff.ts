@@ -0,0 +1,64 @@
+import type { AuditAction, AuditEntity, AuditEntry } from '../types'
+
+export interface AuditFieldChange {
+  field: string
+  before: string
+  after: string
+}
+
+export const AUDIT_ENTITIES: { entity: AuditEntity; icon: string; label: string }[] = [
+  { entity: 'club', icon: '📚', label: 'Clubs' },
+  { entity: 'session', icon: '📖', label: 'Sessions' },
+  { entity: 'discussion', icon: '💬', label: 'Discussions' },
+  { entity: 'member', icon: '👤', label: 'Members' }
+]
+
+// Reads as "alice@example.com updated session Dune"
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  restore: 'restored',
+  purge: 'purged',
+  close: 'closed',
+  join: 'added a club membership for',
+  leave: 'removed a club membership for',
+  merge: 'merged',
+  move: 'moved'
+}
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(['updated_at'])
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Field-by-field differences between an entry's before and after snapshots.
+ * Nested objects such as a session's book are flattened to `book.title` etc.
+ */
+export function getAuditChanges(entry: Pick<AuditEntry, 'before' | 'after'>): AuditFieldChange[] {
+  const flatten = (snapshot: Record<string, unknown> | null, prefix = ''): Map<string, unknown> => {
+    const fields = new Map<string, unknown>()
+    Object.entries(snapshot ?? {}).forEach(([key, value]) => {
+      if (IGNORED_FIELDS.has(key)) return
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        flatten(value as Record<string, unknown>, `${prefix}${key}.`).forEach((nested, nestedKey) => fields.set(nestedKey, nested))
+      } else {
+        fields.set(`${prefix}${key}`, value)
+      }
+    })
+    return fields
+  }
+
+  const before = flatten(entry.before)
+  const after = flatten(entry.after)
+  const fields = [...new Set([...before.keys(), ...after.keys()])]
+
+  return fields
+    .map(field => ({ field, before: formatValue(before.get(field)), after: formatValue(after.get(field)) }))
+    .filter(change => change.before !== change.after)
+}
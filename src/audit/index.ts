@@ -0,0 +1,2 @@
+export { AUDIT_ENTITIES, AUDIT_ACTION_LABELS, getAuditChanges } from './diff'
+export type { AuditFieldChange } from './diff'
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react'
+import type { Session as AuthSession, User } from '@supabase/supabase-js'
+import type { Permission, PermissionScope, Role, RoleGrant } from './permissions'
+
+export interface AuthContextValue {
+  session: AuthSession | null
+  user: User | null
+  grants: RoleGrant[]
+  loading: boolean
+  signInWithEmail: (email: string) => Promise<void>
+  signInWithDiscord: () => Promise<void>
+  signOut: () => Promise<void>
+  can: (permission: Permission, scope: PermissionScope) => boolean
+  roleIn: (scope: PermissionScope) => Role
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null)
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider')
+  }
+  return context
+}
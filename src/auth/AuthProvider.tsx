@@ -0,0 +1,68 @@
+import { useState, useEffect, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import type { Session as AuthSession } from '@supabase/supabase-js'
+import { supabase } from '../supabase'
+import { AuthContext } from './AuthContext'
+import type { AuthContextValue } from './AuthContext'
+import { getEffectiveRole, getRoleGrants, hasPermission } from './permissions'
+
+interface AuthProviderProps {
+  children: ReactNode
+}
+
+// Come back to the page that asked for sign-in; the hash is left out since Supabase returns its tokens there
+const getReturnUrl = () => `${window.location.origin}${window.location.pathname}${window.location.search}`
+
+export default function AuthProvider({ children }: AuthProviderProps) {
+  const [session, setSession] = useState<AuthSession | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    // Restore any existing session (including one just returned from a magic link / OAuth redirect)
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setLoading(false)
+    })
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession)
+      setLoading(false)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [])
+
+  const value = useMemo<AuthContextValue>(() => {
+    const user = session?.user ?? null
+    const grants = getRoleGrants(user)
+
+    return {
+      session,
+      user,
+      grants,
+      loading,
+      signInWithEmail: async (email: string) => {
+        const { error } = await supabase.auth.signInWithOtp({
+          email,
+          options: { emailRedirectTo: getReturnUrl() }
+        })
+        if (error) throw error
+      },
+      signInWithDiscord: async () => {
+        const { error } = await supabase.auth.signInWithOAuth({
+          provider: 'discord',
+          options: { redirectTo: getReturnUrl() }
+        })
+        if (error) throw error
+      },
+      signOut: async () => {
+        const { error } = await supabase.auth.signOut()
+        if (error) throw error
+      },
+      can: (permission, scope) => hasPermission(grants, permission, scope),
+      roleIn: (scope) => getEffectiveRole(grants, scope)
+    }
+  }, [session, loading])
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
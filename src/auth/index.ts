@@ -0,0 +1,5 @@
+export { default as AuthProvider } from './AuthProvider'
+export { useAuth } from './AuthContext'
+export type { AuthContextValue } from './AuthContext'
+export { getRoleLabel } from './permissions'
+export type { Permission, PermissionScope, Role, RoleGrant } from './permissions'
@@ -0,0 +1,84 @@
+import type { User } from '@supabase/supabase-js'
+
+export type Role = 'viewer' | 'club_moderator' | 'server_admin'
+
+// Grants live in the user's app_metadata, which only the service role can write
+export interface RoleGrant {
+  role: Role
+  server_id?: string
+  club_id?: string
+}
+
+export type Permission =
+  | 'manage_servers'
+  | 'manage_clubs'
+  | 'manage_sessions'
+  | 'manage_discussions'
+  | 'manage_members'
+
+// Without a serverId the scope is outside every existing server, e.g. creating one; only grants without a server_id cover it
+export interface PermissionScope {
+  serverId?: string
+  clubId?: string
+}
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  club_moderator: ['manage_sessions', 'manage_discussions', 'manage_members'],
+  server_admin: ['manage_servers', 'manage_clubs', 'manage_sessions', 'manage_discussions', 'manage_members']
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  club_moderator: 'Club Moderator',
+  server_admin: 'Server Admin'
+}
+
+const ROLE_RANK: Role[] = ['viewer', 'club_moderator', 'server_admin']
+
+const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLE_RANK as string[]).includes(value)
+
+export function getRoleGrants(user: User | null): RoleGrant[] {
+  const rawGrants = user?.app_metadata?.roles
+  if (!Array.isArray(rawGrants)) return []
+
+  return rawGrants.filter(
+    (grant): grant is RoleGrant => !!grant && typeof grant === 'object' && isRole(grant.role)
+  )
+}
+
+// A grant without a server_id/club_id applies everywhere
+const grantCoversScope = (grant: RoleGrant, scope: PermissionScope) => {
+  if (grant.server_id && grant.server_id !== scope.serverId) return false
+  if (grant.role === 'club_moderator' && grant.club_id) {
+    return grant.club_id === scope.clubId
+  }
+  return true
+}
+
+export function hasPermission(
+  grants: RoleGrant[],
+  permission: Permission,
+  scope: PermissionScope
+): boolean {
+  return grants.some(
+    grant => ROLE_PERMISSIONS[grant.role].includes(permission) && grantCoversScope(grant, scope)
+  )
+}
+
+/**
+ * Highest role the user holds within the given scope, used for display only.
+ */
+export function getEffectiveRole(grants: RoleGrant[], scope: PermissionScope): Role {
+  return grants
+    .filter(grant => grantCoversScope(grant, scope))
+    .reduce<Role>(
+      (best, grant) => (ROLE_RANK.indexOf(grant.role) > ROLE_RANK.indexOf(best) ? grant.role : best),
+      'viewer'
+    )
+}
+
+export function getRoleLabel(role: Role): string {
+  return ROLE_LABELS[role]
+}
@@ -0,0 +1,46 @@
+import type { BookMetadataProvider, BookSearchResult } from './types'
+
+// Offline stand-in for tests and local development without network access
+const FIXTURE_BOOKS: BookSearchResult[] = [
+  {
+    key: 'fixture-fellowship',
+    title: 'The Fellowship of the Ring',
+    author: 'J.R.R. Tolkien',
+    edition: '50th Anniversary',
+    year: 1954,
+    isbn: '9780618574940',
+    page_count: 432
+  },
+  {
+    key: 'fixture-dune',
+    title: 'Dune',
+    author: 'Frank Herbert',
+    edition: 'Deluxe',
+    year: 1965,
+    isbn: '9780593099322',
+    page_count: 688
+  },
+  {
+    key: 'fixture-piranesi',
+    title: 'Piranesi',
+    author: 'Susanna Clarke',
+    edition: 'First',
+    year: 2020,
+    isbn: '9781635575637',
+    page_count: 272
+  }
+]
+
+export const fixtureProvider: BookMetadataProvider = {
+  name: 'Local fixtures',
+  search: async (field, query) => {
+    const term = query.trim().toLowerCase()
+    if (!term) return []
+
+    return FIXTURE_BOOKS.filter(book =>
+      field === 'isbn'
+        ? book.isbn === term.replace(/[^0-9x]/g, '')
+        : book.title.toLowerCase().includes(term) || book.author.toLowerCase().includes(term)
+    )
+  }
+}
@@ -0,0 +1,10 @@
+import { fixtureProvider } from './fixtureProvider'
+import { openLibraryProvider } from './openLibraryProvider'
+import type { BookMetadataProvider } from './types'
+
+export type { BookMetadataProvider, BookSearchField, BookSearchResult } from './types'
+export { fixtureProvider, openLibraryProvider }
+
+// VITE_BOOK_PROVIDER=fixture swaps in the offline provider
+export const bookProvider: BookMetadataProvider =
+  import.meta.env.VITE_BOOK_PROVIDER === 'fixture' ? fixtureProvider : openLibraryProvider
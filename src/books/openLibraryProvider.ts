@@ -0,0 +1,99 @@
+import type { BookMetadataProvider, BookSearchResult } from './types'
+
+const SEARCH_URL = 'https://openlibrary.org/search.json'
+const COVER_URL = 'https://covers.openlibrary.org/b/id'
+const RESULT_LIMIT = 10
+
+// editions holds the edition that best matches the query, so the ISBN searched for when there is one
+const FIELDS = [
+  'key',
+  'title',
+  'author_name',
+  'first_publish_year',
+  'number_of_pages_median',
+  'cover_i',
+  'editions',
+  'editions.edition_name',
+  'editions.publish_year',
+  'editions.isbn',
+  'editions.number_of_pages',
+  'editions.cover_i'
+].join(',')
+
+interface OpenLibraryEdition {
+  edition_name?: string
+  publish_year?: number[]
+  isbn?: string[]
+  number_of_pages?: number
+  cover_i?: number
+}
+
+interface OpenLibraryDoc {
+  key: string
+  title: string
+  author_name?: string[]
+  first_publish_year?: number
+  number_of_pages_median?: number
+  cover_i?: number
+  editions?: { docs?: OpenLibraryEdition[] }
+}
+
+// Prefer ISBN-13 when an edition lists several
+const pickIsbn = (isbns: string[] | undefined, searchedIsbn?: string) => {
+  if (!isbns?.length) return undefined
+  if (searchedIsbn && isbns.includes(searchedIsbn)) return searchedIsbn
+  return isbns.find(isbn => isbn.length === 13) ?? isbns[0]
+}
+
+const pickEdition = (editions: OpenLibraryEdition[] | undefined, searchedIsbn?: string) =>
+  editions?.find(edition => searchedIsbn && edition.isbn?.includes(searchedIsbn)) ?? editions?.[0]
+
+const toCoverUrl = (coverId?: number) => (coverId ? `${COVER_URL}/${coverId}-L.jpg` : undefined)
+
+/**
+ * Edition name, year, ISBN and pages all come from one edition so they describe the same
+ * printing; a work without editions only gets its first publication year and median pages.
+ */
+const toResult = (doc: OpenLibraryDoc, searchedIsbn?: string): BookSearchResult => {
+  const base = {
+    key: doc.key,
+    title: doc.title,
+    author: doc.author_name?.join(', ') ?? 'Unknown author'
+  }
+
+  const edition = pickEdition(doc.editions?.docs, searchedIsbn)
+  if (!edition) {
+    return {
+      ...base,
+      year: doc.first_publish_year,
+      page_count: doc.number_of_pages_median,
+      cover_url: toCoverUrl(doc.cover_i)
+    }
+  }
+
+  return {
+    ...base,
+    edition: edition.edition_name,
+    year: edition.publish_year?.length ? Math.min(...edition.publish_year) : undefined,
+    isbn: pickIsbn(edition.isbn, searchedIsbn),
+    page_count: edition.number_of_pages,
+    cover_url: toCoverUrl(edition.cover_i ?? doc.cover_i)
+  }
+}
+
+export const openLibraryProvider: BookMetadataProvider = {
+  name: 'Open Library',
+  search: async (field, query) => {
+    const term = field === 'isbn' ? query.replace(/[^0-9Xx]/g, '') : query.trim()
+    if (!term) return []
+
+    const params = new URLSearchParams({ [field]: term, fields: FIELDS, limit: String(RESULT_LIMIT) })
+    const response = await fetch(`${SEARCH_URL}?${params}`)
+    if (!response.ok) {
+      throw new Error(`Book lookup failed (${response.status})`)
+    }
+
+    const data: { docs?: OpenLibraryDoc[] } = await response.json()
+    return (data.docs ?? []).map(doc => toResult(doc, field === 'isbn' ? term : undefined))
+  }
+}
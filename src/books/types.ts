@@ -0,0 +1,17 @@
+import type { Book } from '../types'
+
+export type BookSearchResult = Book & {
+  // Stable key for rendering result lists
+  key: string
+}
+
+export type BookSearchField = 'isbn' | 'title'
+
+/**
+ * Source of book metadata for the lookup panel. Implementations must not throw
+ * for "no results"; they return an empty array instead.
+ */
+export interface BookMetadataProvider {
+  name: string
+  search: (field: BookSearchField, query: string) => Promise<BookSearchResult[]>
+}
@@ -0,0 +1,24 @@
+export { useCachedServers, useCachedClub } from './useCache'
+export {
+  fetchServers,
+  fetchClub,
+  fetchServerClubs,
+  loadServers,
+  loadClub,
+  loadServerClubs,
+  invalidateClub,
+  clearCache
+} from './resources'
+export { mutateClub, updateCachedClub } from './mutations'
+export {
+  pendingDiscussionId,
+  pendingMemberId,
+  isPendingDiscussion,
+  isPendingMember,
+  updateActiveSession,
+  upsertDiscussion,
+  removeDiscussion,
+  changeShameList,
+  upsertMember,
+  removeMember
+} from './updates'
@@ -0,0 +1,34 @@
+import type { Club } from '../types'
+import { putClub, selectClub } from './store'
+
+interface OptimisticUpdate<T> {
+  apply: (club: Club) => Club
+  write: () => Promise<T>
+  reconcile?: (club: Club, result: Exclude<T, null>) => Club // Skipped when the write was queued offline
+}
+
+/**
+ * Show an edit on the cached club straight away, then send it. A failed write puts
+ * the club back as it was before this edit; a successful one folds in the server's
+ * answer through `reconcile` instead of refetching the whole club.
+ */
+export async function mutateClub<T>(clubId: Club['id'], { apply, write, reconcile }: OptimisticUpdate<T>): Promise<T> {
+  const before = selectClub(clubId)
+  if (before) putClub(apply(before))
+
+  try {
+    const result = await write()
+    const current = selectClub(clubId)
+    if (result !== null && reconcile && current) putClub(reconcile(current, result as Exclude<T, null>))
+    return result
+  } catch (err: unknown) {
+    if (before) putClub(before)
+    throw err
+  }
+}
+
+// Edit the cached club without a request, e.g. to show a server copy that came back with a conflict
+export function updateCachedClub(clubId: Club['id'], update: (club: Club) => Club) {
+  const club = selectClub(clubId)
+  if (club) putClub(update(club))
+}
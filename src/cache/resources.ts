@@ -0,0 +1,88 @@
+import { api } from '../api'
+import type { Club, Server } from '../types'
+import { putClub, putServers, resetCache, selectClub, selectServers } from './store'
+
+// Cached data younger than this is served without asking the server again
+const STALE_AFTER_MS = 30_000
+
+const fetchedAt = new Map<string, number>()
+const inflight = new Map<string, Promise<unknown>>()
+
+const serversKey = 'servers'
+const clubKey = (clubId: Club['id']) => `club:${clubId}`
+
+const isFresh = (key: string) => Date.now() - (fetchedAt.get(key) ?? 0) < STALE_AFTER_MS
+
+// Callers asking for the same resource while it is loading share one request
+const dedupe = <T>(key: string, request: () => Promise<T>): Promise<T> => {
+  const pending = inflight.get(key) as Promise<T> | undefined
+  if (pending) return pending
+
+  const promise = request().finally(() => inflight.delete(key))
+  inflight.set(key, promise)
+  return promise
+}
+
+export function fetchServers(): Promise<Server[]> {
+  return dedupe(serversKey, async () => {
+    const servers = await api.getServers()
+    putServers(servers)
+    fetchedAt.set(serversKey, Date.now())
+    return servers
+  })
+}
+
+export function fetchClub(clubId: Club['id'], serverId: Server['id']): Promise<Club> {
+  return dedupe(clubKey(clubId), async () => {
+    const club = await api.getClub(clubId, serverId)
+    putClub(club)
+    fetchedAt.set(clubKey(clubId), Date.now())
+    return club
+  })
+}
+
+/**
+ * Stale-while-revalidate read of the server list: whatever is cached (in memory,
+ * or in IndexedDB on a fresh page load) is published straight away, and the
+ * network is only asked when that copy is missing or stale.
+ */
+export async function loadServers(): Promise<Server[]> {
+  if (!selectServers()) {
+    const stored = await api.getCachedServers()
+    if (stored && !selectServers()) putServers(stored)
+  }
+
+  const cached = selectServers()
+  return cached && isFresh(serversKey) ? cached : fetchServers()
+}
+
+// Stale-while-revalidate read of one club, see loadServers
+export async function loadClub(clubId: Club['id'], serverId: Server['id']): Promise<Club> {
+  if (!selectClub(clubId)) {
+    const stored = await api.getCachedClub(clubId, serverId)
+    if (stored && !selectClub(clubId)) putClub(stored)
+  }
+
+  const cached = selectClub(clubId)
+  return cached && isFresh(clubKey(clubId)) ? cached : fetchClub(clubId, serverId)
+}
+
+// The server list only carries club summaries; load every club on a server in full
+export function fetchServerClubs(server: Pick<Server, 'id' | 'clubs'>): Promise<Club[]> {
+  return Promise.all(server.clubs.map(club => fetchClub(club.id, server.id)))
+}
+
+// Like fetchServerClubs, but reusing fresh copies
+export function loadServerClubs(server: Pick<Server, 'id' | 'clubs'>): Promise<Club[]> {
+  return Promise.all(server.clubs.map(club => loadClub(club.id, server.id)))
+}
+
+// The next load goes to the network; whatever is cached stays on screen until then
+export function invalidateClub(clubId: Club['id']) {
+  fetchedAt.delete(clubKey(clubId))
+}
+
+export function clearCache() {
+  fetchedAt.clear()
+  resetCache()
+}
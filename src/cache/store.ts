@@ -0,0 +1,126 @@
+import type { Club, Member, Server, Session } from '../types'
+
+// A club with its members and sessions replaced by references into the other tables
+export interface ClubEntity extends Omit<Club, 'members' | 'active_session' | 'past_sessions'> {
+  member_ids: Member['id'][]
+  active_session_id: Session['id'] | null
+  past_session_ids: Session['id'][]
+}
+
+interface CacheState {
+  serverIds: Server['id'][] | null // null until the server list has been loaded once
+  servers: Record<Server['id'], Server>
+  clubs: Record<Club['id'], ClubEntity>
+  sessions: Record<Session['id'], Session>
+  members: Record<Member['id'], Member>
+}
+
+const emptyState: CacheState = { serverIds: null, servers: {}, clubs: {}, sessions: {}, members: {} }
+
+let state = emptyState
+const listeners = new Set<() => void>()
+
+export function subscribeToCache(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const setState = (next: CacheState) => {
+  state = next
+  listeners.forEach(listener => listener())
+}
+
+// Revalidating usually returns what is already cached; reusing the old object keeps React from re-rendering
+const reuse = <T>(previous: T | undefined, next: T): T =>
+  previous !== undefined && JSON.stringify(previous) === JSON.stringify(next) ? previous : next
+
+export function putServers(servers: Server[]) {
+  setState({
+    ...state,
+    serverIds: servers.map(server => server.id),
+    servers: Object.fromEntries(servers.map(server => [server.id, reuse(state.servers[server.id], server)]))
+  })
+}
+
+/**
+ * Split a club into the normalized tables. Members are shared between clubs,
+ * so saving one club also updates every other cached club they belong to.
+ */
+export function putClub(club: Club) {
+  const { members, active_session, past_sessions, ...fields } = club
+  const sessions = active_session ? [active_session, ...past_sessions] : past_sessions
+
+  const entity: ClubEntity = {
+    ...fields,
+    member_ids: members.map(member => member.id),
+    active_session_id: active_session?.id ?? null,
+    past_session_ids: past_sessions.map(session => session.id)
+  }
+
+  setState({
+    ...state,
+    clubs: { ...state.clubs, [club.id]: reuse(state.clubs[club.id], entity) },
+    sessions: {
+      ...state.sessions,
+      ...Object.fromEntries(sessions.map(session => [session.id, reuse(state.sessions[session.id], session)]))
+    },
+    members: {
+      ...state.members,
+      ...Object.fromEntries(members.map(member => [member.id, reuse(state.members[member.id], member)]))
+    }
+  })
+}
+
+export function resetCache() {
+  serversMemo = null
+  clubMemos.clear()
+  setState(emptyState)
+}
+
+// Snapshots must keep their identity while nothing they are built from changed
+const sameItems = <T>(a: readonly T[], b: readonly T[]) => a.length === b.length && a.every((item, i) => item === b[i])
+
+let serversMemo: Server[] | null = null
+
+export function selectServers(): Server[] | null {
+  if (!state.serverIds) return null
+
+  const servers = state.serverIds.map(id => state.servers[id])
+  if (!serversMemo || !sameItems(serversMemo, servers)) serversMemo = servers
+  return serversMemo
+}
+
+interface ClubMemo {
+  entity: ClubEntity
+  parts: (Member | Session | undefined)[]
+  result: Club
+}
+
+const clubMemos = new Map<Club['id'], ClubMemo>()
+
+export function selectClub(clubId: Club['id'] | undefined): Club | null {
+  const entity = clubId ? state.clubs[clubId] : undefined
+  if (!clubId || !entity) return null
+
+  const { member_ids, active_session_id, past_session_ids, ...fields } = entity
+  const members = member_ids.map(id => state.members[id])
+  const activeSession = active_session_id ? state.sessions[active_session_id] : undefined
+  const pastSessions = past_session_ids.map(id => state.sessions[id])
+  const parts = [...members, activeSession, ...pastSessions]
+
+  const memo = clubMemos.get(clubId)
+  if (memo && memo.entity === entity && sameItems(memo.parts, parts)) {
+    return memo.result
+  }
+
+  const result: Club = {
+    ...fields,
+    members: members.filter((member): member is Member => !!member),
+    active_session: activeSession ?? null,
+    past_sessions: pastSessions.filter((session): session is Session => !!session)
+  }
+  clubMemos.set(clubId, { entity, parts, result })
+  return result
+}
@@ -0,0 +1,58 @@
+import type { ShameListChange } from '../api'
+import type { Club, Discussion, Member, Session } from '../types'
+
+// Pure edits to a club used for optimistic updates; each returns a new club and leaves the input alone
+
+// Stand-in ids for records the server has not created yet; replaced once it answers
+export const pendingDiscussionId = (): Discussion['id'] => `pending-${crypto.randomUUID()}`
+export const pendingMemberId = (): Member['id'] => -Date.now()
+
+// The server cannot resolve a stand-in id, so records carrying one can't be edited or deleted until they sync
+export const isPendingDiscussion = (discussion: Pick<Discussion, 'id'>) => discussion.id.startsWith('pending-')
+export const isPendingMember = (member: Pick<Member, 'id'>) => member.id < 0
+
+const withActiveSession = (club: Club, update: (session: Session) => Session): Club =>
+  club.active_session ? { ...club, active_session: update(club.active_session) } : club
+
+export const updateActiveSession = (club: Club, changes: Partial<Pick<Session, 'book' | 'due_date'>>): Club =>
+  withActiveSession(club, session => ({ ...session, ...changes }))
+
+// Replaces the discussion with id `replacesId` (its own id by default), or adds it
+export const upsertDiscussion = (club: Club, discussion: Discussion, replacesId = discussion.id): Club =>
+  withActiveSession(club, session => ({
+    ...session,
+    discussions: session.discussions.some(other => other.id === replacesId)
+      ? session.discussions.map(other => (other.id === replacesId ? discussion : other))
+      : [...session.discussions, discussion]
+  }))
+
+export const removeDiscussion = (club: Club, discussionId: Discussion['id']): Club =>
+  withActiveSession(club, session => ({
+    ...session,
+    discussions: session.discussions.filter(discussion => discussion.id !== discussionId)
+  }))
+
+export const changeShameList = (club: Club, memberId: Member['id'], change: ShameListChange | undefined): Club => {
+  if (change === 'add' && !club.shame_list.includes(memberId)) {
+    return { ...club, shame_list: [...club.shame_list, memberId] }
+  }
+  if (change === 'remove') {
+    return { ...club, shame_list: club.shame_list.filter(id => id !== memberId) }
+  }
+  return club
+}
+
+// Replaces the member with id `replacesId` (their own id by default), or adds them; shame list entries follow the new id
+export const upsertMember = (club: Club, member: Member, replacesId = member.id): Club => ({
+  ...club,
+  members: club.members.some(other => other.id === replacesId)
+    ? club.members.map(other => (other.id === replacesId ? member : other))
+    : [...club.members, member],
+  shame_list: club.shame_list.map(id => (id === replacesId ? member.id : id))
+})
+
+export const removeMember = (club: Club, memberId: Member['id']): Club => ({
+  ...club,
+  members: club.members.filter(member => member.id !== memberId),
+  shame_list: club.shame_list.filter(id => id !== memberId)
+})
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react'
+import type { Club, Server } from '../types'
+import { selectClub, selectServers, subscribeToCache } from './store'
+
+// The cached server list, or null until it has been loaded once
+export function useCachedServers(): Server[] | null {
+  return useSyncExternalStore(subscribeToCache, selectServers)
+}
+
+// The cached copy of a club, kept current as loads and optimistic edits land
+export function useCachedClub(clubId: Club['id'] | undefined): Club | null {
+  return useSyncExternalStore(subscribeToCache, () => selectClub(clubId))
+}
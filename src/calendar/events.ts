@@ -0,0 +1,52 @@
+import { formatDate } from '../schedule'
+import type { Club, Session } from '../types'
+
+export type CalendarEventType = 'discussion' | 'due'
+
+export interface CalendarEvent {
+  id: string
+  type: CalendarEventType
+  title: string
+  date: string // YYYY-MM-DD
+  location?: string
+  clubId: Club['id']
+  clubName: Club['name']
+}
+
+// Dates may arrive as plain dates or full timestamps; the calendar only cares about the day
+export const toDateKey = (value: string | Date): string =>
+  typeof value === 'string' ? value.slice(0, 10) : formatDate(value)
+
+function getSessionEvents(club: Club, session: Session): CalendarEvent[] {
+  return [
+    ...session.discussions.map(discussion => ({
+      id: `discussion-${discussion.id}`,
+      type: 'discussion' as const,
+      title: `${discussion.title} · ${session.book.title}`,
+      date: toDateKey(discussion.date),
+      location: discussion.location,
+      clubId: club.id,
+      clubName: club.name
+    })),
+    {
+      id: `due-${session.id}`,
+      type: 'due' as const,
+      title: `Finish ${session.book.title}`,
+      date: toDateKey(session.due_date),
+      clubId: club.id,
+      clubName: club.name
+    }
+  ]
+}
+
+// Every discussion and due date of a club's active and past sessions, oldest first
+export function getClubEvents(club: Club): CalendarEvent[] {
+  const sessions = [...(club.active_session ? [club.active_session] : []), ...club.past_sessions]
+  return sessions
+    .flatMap(session => getSessionEvents(club, session))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export function getServerEvents(clubs: Club[]): CalendarEvent[] {
+  return clubs.flatMap(getClubEvents).sort((a, b) => a.date.localeCompare(b.date))
+}
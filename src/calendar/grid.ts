@@ -0,0 +1,31 @@
+import { addDays } from '../schedule'
+
+export type CalendarMode = 'month' | 'week'
+
+// Midnight of the week's Sunday, so grid days carry no time of day
+const startOfWeek = (date: Date) => addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -date.getDay())
+
+// Whole weeks (Sunday first) covering the anchor's month, padded with neighbouring days
+export function getMonthGrid(anchor: Date): Date[][] {
+  const firstOfMonth = new Date(anchor.getFullYear(), anchor.getMonth(), 1)
+  const lastOfMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)
+  const weeks: Date[][] = []
+
+  for (let weekStart = startOfWeek(firstOfMonth); weekStart <= lastOfMonth; weekStart = addDays(weekStart, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, day) => addDays(weekStart, day)))
+  }
+
+  return weeks
+}
+
+export function getWeekGrid(anchor: Date): Date[][] {
+  const weekStart = startOfWeek(anchor)
+  return [Array.from({ length: 7 }, (_, day) => addDays(weekStart, day))]
+}
+
+// Step the anchor one month or one week forward (1) or back (-1)
+export function shiftAnchor(anchor: Date, mode: CalendarMode, direction: 1 | -1): Date {
+  return mode === 'month'
+    ? new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+    : addDays(anchor, 7 * direction)
+}
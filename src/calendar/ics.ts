@@ -0,0 +1,63 @@
+import type { CalendarEvent } from './events'
+
+// RFC 5545 text values escape backslashes, semicolons, commas and newlines
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+const toIcsDate = (dateKey: string) => dateKey.replace(/-/g, '')
+
+const nextDay = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day + 1))
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Build an iCalendar file of all-day events. UIDs are stable per discussion and
+ * session, so re-importing an updated file replaces events instead of duplicating them.
+ */
+export function toIcs(events: CalendarEvent[], calendarName: string): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Book Club Central//Admin Dashboard//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.id}@book-club-central`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(`${event.type === 'due' ? '⏰' : '💬'} ${event.title}`)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `DESCRIPTION:${escapeText(event.clubName)}`,
+      `CATEGORIES:${event.type === 'due' ? 'Due date' : 'Discussion'}`,
+      'END:VEVENT'
+    ]),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
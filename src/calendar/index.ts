@@ -0,0 +1,5 @@
+export { toDateKey, getClubEvents, getServerEvents } from './events'
+export type { CalendarEvent, CalendarEventType } from './events'
+export { getMonthGrid, getWeekGrid, shiftAnchor } from './grid'
+export type { CalendarMode } from './grid'
+export { toIcs } from './ics'
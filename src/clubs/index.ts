@@ -0,0 +1,8 @@
+export {
+  DEFAULT_CLUB_RULES,
+  COMMON_TIMEZONES,
+  getTimezoneOptions,
+  getClubRules,
+  getDefaultDueDate,
+  getNextDiscussionDate
+} from './rules'
@@ -0,0 +1,64 @@
+import { CADENCE_DAYS, addDays, formatDate, parseDate } from '../schedule'
+import type { Club, ClubRules, Session } from '../types'
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+
+// What a club follows until its settings are saved; matches the dashboard's behavior before rules existed
+export const DEFAULT_CLUB_RULES: ClubRules = {
+  points_per_book: 10,
+  shame_threshold: 'finished',
+  session_length_days: 28,
+  discussion_cadence: 'weekly',
+  discussion_location: '',
+  timezone: browserTimezone()
+}
+
+// Offered in the settings page; the club's own and the browser's zone are added when missing
+export const COMMON_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Helsinki',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+]
+
+export function getTimezoneOptions(current: string): string[] {
+  return [...new Set([current, browserTimezone(), ...COMMON_TIMEZONES])].sort()
+}
+
+// Saved rules may predate newer fields, so every field falls back to its default
+export function getClubRules(club: Pick<Club, 'rules'>): ClubRules {
+  return { ...DEFAULT_CLUB_RULES, ...club.rules }
+}
+
+// Due date prefilled in the new session form, from the club's session_length_days
+export function getDefaultDueDate(sessionLengthDays: number, today = new Date()): string {
+  return formatDate(addDays(today, sessionLengthDays))
+}
+
+/**
+ * Date prefilled for a new discussion: one cadence step after the session's
+ * latest discussion, or after today when none is scheduled yet.
+ */
+export function getNextDiscussionDate(rules: ClubRules, session: Pick<Session, 'discussions'> | null, today = new Date()): string {
+  const latest = session?.discussions
+    .map(discussion => discussion.date.slice(0, 10))
+    .sort()
+    .pop()
+
+  const from = parseDate(latest ?? formatDate(today))
+  const next = addDays(from < today ? today : from, CADENCE_DAYS[rules.discussion_cadence])
+  return formatDate(next)
+}
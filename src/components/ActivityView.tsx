@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react'
+import { api, getErrorMessage, AUDIT_PAGE_SIZE } from '../api'
+import type { AuditLogQuery } from '../api'
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITIES, getAuditChanges } from '../audit'
+import type { AuditEntity, AuditEntry, Club, Server } from '../types'
+
+interface ActivityViewProps {
+  server: Server
+  club?: Club | null // Scope to one club; the whole server when omitted
+  onError: (error: string) => void
+}
+
+interface ActivityFilters {
+  actor: string
+  entity: AuditEntity | ''
+  from: string
+  to: string
+}
+
+const emptyFilters: ActivityFilters = { actor: '', entity: '', from: '', to: '' }
+
+// Wait for a pause in typing before querying by actor
+const ACTOR_DEBOUNCE_MS = 300
+
+const toQuery = (serverId: string, clubId: string | undefined, filters: ActivityFilters): AuditLogQuery => ({
+  server_id: serverId,
+  club_id: clubId,
+  actor: filters.actor || undefined,
+  entity: filters.entity || undefined,
+  from: filters.from || undefined,
+  to: filters.to || undefined
+})
+
+const entityIcon = (entity: AuditEntity) => AUDIT_ENTITIES.find(info => info.entity === entity)?.icon ?? '•'
+
+export default function ActivityView({ server, club, onError }: ActivityViewProps) {
+  const [filters, setFilters] = useState<ActivityFilters>(emptyFilters)
+  const [actor, setActor] = useState('')
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const clubId = club?.id
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.actor === actor.trim() ? prev : { ...prev, actor: actor.trim() }))
+    }, ACTOR_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [actor])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadEntries = async () => {
+      try {
+        setEntries(null)
+        const loadedEntries = await api.getAuditLog(toQuery(server.id, clubId, filters))
+        if (cancelled) return
+        setEntries(loadedEntries)
+        setHasMore(loadedEntries.length === AUDIT_PAGE_SIZE)
+      } catch (err: unknown) {
+        if (cancelled) return
+        onError(getErrorMessage(err, 'Failed to load activity'))
+        setEntries([])
+        setHasMore(false)
+      }
+    }
+
+    loadEntries()
+    return () => {
+      cancelled = true
+    }
+  }, [server.id, clubId, filters, onError])
+
+  const handleLoadMore = async () => {
+    if (!entries?.length) return
+
+    try {
+      setLoadingMore(true)
+      const olderEntries = await api.getAuditLog({
+        ...toQuery(server.id, clubId, filters),
+        before: entries[entries.length - 1].created_at
+      })
+      setEntries([...entries, ...olderEntries])
+      setHasMore(olderEntries.length === AUDIT_PAGE_SIZE)
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to load activity'))
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const isFiltered = !!(actor.trim() || filters.entity || filters.from || filters.to)
+  const inputClass = 'bg-white/10 border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent'
+
+  return (
+    <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10">
+        <h3 className="font-bold text-white flex items-center text-xl">
+          <span className="mr-3 text-2xl">🕓</span>
+          {club ? `${club.name} Activity` : `${server.name} Activity`}
+        </h3>
+        <p className="text-blue-200/70 text-sm mt-1">
+          Who changed clubs, sessions, discussions and members, and what they changed
+        </p>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2 mt-4">
+          <input
+            type="text"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="Actor email"
+            className={`${inputClass} lg:col-span-2`}
+          />
+          <select
+            value={filters.entity}
+            onChange={(e) => setFilters(prev => ({ ...prev, entity: e.target.value as ActivityFilters['entity'] }))}
+            className={`${inputClass} cursor-pointer`}
+          >
+            <option value="" className="bg-slate-800 text-white">All entities</option>
+            {AUDIT_ENTITIES.map(info => (
+              <option key={info.entity} value={info.entity} className="bg-slate-800 text-white">{info.icon} {info.label}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+            className={inputClass}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+            className={inputClass}
+            aria-label="To date"
+          />
+        </div>
+        {isFiltered && (
+          <button
+            onClick={() => {
+              setActor('')
+              setFilters(emptyFilters)
+            }}
+            className="text-blue-200/70 hover:text-white text-xs font-medium mt-2 transition-colors"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {!entries ? (
+        <div className="p-12 flex justify-center">
+          <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-200 border-t-transparent"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-white/60 text-sm text-center py-12">
+          {isFiltered ? 'No activity matches these filters' : 'No activity recorded yet'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-white/10">
+          {entries.map(entry => {
+            const isExpanded = expandedId === entry.id
+            const changes = isExpanded ? getAuditChanges(entry) : []
+
+            return (
+              <li key={entry.id} className="p-4">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="w-full flex items-start justify-between text-left"
+                >
+                  <div className="flex items-start space-x-3 min-w-0">
+                    <span className="text-xl">{entityIcon(entry.entity)}</span>
+                    <div className="min-w-0">
+                      <p className="text-white text-sm">
+                        <span className="font-medium text-orange-200">{entry.actor}</span>{' '}
+                        {AUDIT_ACTION_LABELS[entry.action]} {entry.entity}{' '}
+                        <span className="font-medium">{entry.entity_name}</span>
+                      </p>
+                      <p className="text-blue-200/60 text-xs">{new Date(entry.created_at).toLocaleString()}</p>
+                    </div>
+                  </div>
+                  <span className="text-white/40 text-xs flex-shrink-0 ml-2">{isExpanded ? '▲' : '▼'}</span>
+                </button>
+
+                {/* Before / After */}
+                {isExpanded && (
+                  changes.length === 0 ? (
+                    <p className="text-white/40 text-xs mt-3 ml-9">No field changes recorded</p>
+                  ) : (
+                    <table className="mt-3 ml-9 text-xs">
+                      <thead>
+                        <tr className="text-blue-200/70">
+                          <th className="text-left font-medium pr-4 pb-1">Field</th>
+                          <th className="text-left font-medium pr-4 pb-1">Before</th>
+                          <th className="text-left font-medium pb-1">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changes.map(change => (
+                          <tr key={change.field} className="align-top">
+                            <td className="text-white/70 pr-4 py-0.5 font-mono">{change.field}</td>
+                            <td className="text-red-200/80 pr-4 py-0.5 break-all">{change.before}</td>
+                            <td className="text-green-200/80 py-0.5 break-all">{change.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {entries && hasMore && (
+        <div className="p-4 border-t border-blue-300/20 text-center">
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="bg-white/5 hover:bg-white/10 disabled:opacity-50 text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/20"
+          >
+            {loadingMore ? 'Loading...' : 'Load older activity'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import type { ReactNode } from 'react'
+import { useAuth } from '../auth'
+import LoginScreen from './LoginScreen'
+
+interface AuthGateProps {
+  children: ReactNode
+}
+
+// Only render the dashboard once we know who is looking at it
+export default function AuthGate({ children }: AuthGateProps) {
+  const { session, loading } = useAuth()
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-slate-900 to-blue-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-4 border-blue-200 border-t-transparent mx-auto shadow-lg"></div>
+          <p className="mt-6 text-white/90 text-lg font-medium">Checking your session...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return <LoginScreen />
+  }
+
+  return <>{children}</>
+}
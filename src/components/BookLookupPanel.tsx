@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { bookProvider } from '../books'
+import type { BookMetadataProvider, BookSearchField, BookSearchResult } from '../books'
+import { getErrorMessage } from '../api'
+
+interface BookLookupPanelProps {
+  onSelect: (book: BookSearchResult) => void
+  disabled?: boolean
+  provider?: BookMetadataProvider
+}
+
+export default function BookLookupPanel({
+  onSelect,
+  disabled = false,
+  provider = bookProvider
+}: BookLookupPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [field, setField] = useState<BookSearchField>('title')
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<BookSearchResult[] | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSearch = async () => {
+    if (!query.trim()) return
+
+    try {
+      setSearching(true)
+      setError(null)
+      setResults(await provider.search(field, query))
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Book lookup failed'))
+      setResults(null)
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const handleSelect = (book: BookSearchResult) => {
+    onSelect(book)
+    setIsOpen(false)
+    setResults(null)
+    setQuery('')
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="w-full bg-blue-500/10 hover:bg-blue-500/20 border border-blue-400/20 rounded-xl px-4 py-3 text-blue-200 text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+      >
+        <span>🔍</span>
+        <span>Look up by ISBN or title</span>
+      </button>
+    )
+  }
+
+  return (
+    <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-blue-200 text-sm font-medium">🔍 Book Lookup <span className="text-white/40">· {provider.name}</span></p>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="text-white/60 hover:text-white transition-colors text-sm"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Search Controls */}
+      <div className="flex space-x-2">
+        <select
+          value={field}
+          onChange={(e) => setField(e.target.value as BookSearchField)}
+          className="bg-white/10 border border-blue-300/30 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-400 cursor-pointer"
+          disabled={searching}
+        >
+          <option value="title" className="bg-slate-800 text-white">Title</option>
+          <option value="isbn" className="bg-slate-800 text-white">ISBN</option>
+        </select>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+          placeholder={field === 'isbn' ? 'e.g., 9780618574940' : 'e.g., The Hobbit'}
+          className="flex-1 min-w-0 bg-white/10 border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+          disabled={searching}
+        />
+        <button
+          type="button"
+          onClick={handleSearch}
+          disabled={searching || !query.trim()}
+          className="bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 disabled:cursor-not-allowed text-blue-100 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200"
+        >
+          {searching ? '...' : 'Search'}
+        </button>
+      </div>
+
+      {error && <p className="text-red-300 text-xs">⚠️ {error}</p>}
+
+      {/* Results */}
+      {results && (
+        results.length === 0 ? (
+          <p className="text-white/50 text-sm text-center py-2">No books found</p>
+        ) : (
+          <ul className="max-h-56 overflow-y-auto space-y-2">
+            {results.map(book => (
+              <li key={book.key}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(book)}
+                  className="w-full text-left flex items-center space-x-3 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-orange-400/40 rounded-lg p-2 transition-all duration-200"
+                >
+                  {book.cover_url ? (
+                    <img src={book.cover_url} alt="" className="w-8 h-12 object-cover rounded shadow flex-shrink-0" />
+                  ) : (
+                    <div className="w-8 h-12 bg-gradient-to-b from-orange-400 to-blue-500 rounded flex items-center justify-center flex-shrink-0">
+                      <span className="text-xs">📚</span>
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-white text-sm font-medium truncate">{book.title}</p>
+                    <p className="text-blue-200/70 text-xs truncate">
+                      {book.author}
+                      {book.year && ` · ${book.year}`}
+                      {book.page_count && ` · ${book.page_count} pages`}
+                    </p>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  )
+}
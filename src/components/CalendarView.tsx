@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react'
+import { getErrorMessage } from '../api'
+import { loadServerClubs } from '../cache'
+import { getClubEvents, getMonthGrid, getServerEvents, getWeekGrid, shiftAnchor, toDateKey, toIcs } from '../calendar'
+import type { CalendarEvent, CalendarMode } from '../calendar'
+import { downloadFile } from '../transfer'
+import type { Club, Server } from '../types'
+
+interface CalendarViewProps {
+  server: Server
+  onError: (error: string) => void
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Each club keeps one colour across the grid and the legend
+const CLUB_COLORS = [
+  'bg-orange-500/30 text-orange-100 border-orange-400/40',
+  'bg-blue-500/30 text-blue-100 border-blue-400/40',
+  'bg-green-500/30 text-green-100 border-green-400/40',
+  'bg-purple-500/30 text-purple-100 border-purple-400/40',
+  'bg-pink-500/30 text-pink-100 border-pink-400/40',
+  'bg-teal-500/30 text-teal-100 border-teal-400/40'
+]
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'calendar'
+
+export default function CalendarView({ server, onError }: CalendarViewProps) {
+  const [clubs, setClubs] = useState<Club[] | null>(null)
+  const [mode, setMode] = useState<CalendarMode>('month')
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [icsClubId, setIcsClubId] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadClubs = async () => {
+      try {
+        setClubs(null)
+        const loadedClubs = await loadServerClubs(server)
+        if (!cancelled) setClubs(loadedClubs)
+      } catch (err: unknown) {
+        if (cancelled) return
+        onError(getErrorMessage(err, 'Failed to load calendar'))
+        setClubs([])
+      }
+    }
+
+    loadClubs()
+    return () => {
+      cancelled = true
+    }
+  }, [server, onError])
+
+  if (!clubs) {
+    return (
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-12 flex justify-center shadow-xl">
+        <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-200 border-t-transparent"></div>
+      </div>
+    )
+  }
+
+  const events = getServerEvents(clubs)
+  const eventsByDay = new Map<string, CalendarEvent[]>()
+  events.forEach(event => eventsByDay.set(event.date, [...(eventsByDay.get(event.date) ?? []), event]))
+
+  const clubColor = (clubId: string) =>
+    CLUB_COLORS[Math.max(0, clubs.findIndex(club => club.id === clubId)) % CLUB_COLORS.length]
+
+  const weeks = mode === 'month' ? getMonthGrid(anchor) : getWeekGrid(anchor)
+  const todayKey = toDateKey(new Date())
+  const periodLabel = mode === 'month'
+    ? anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+    : `Week of ${weeks[0][0].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`
+
+  const handleDownloadIcs = () => {
+    const club = clubs.find(candidate => candidate.id === icsClubId)
+    const name = club ? club.name : server.name
+    downloadFile(
+      `${slugify(name)}.ics`,
+      toIcs(club ? getClubEvents(club) : events, `${name} Book Club`),
+      'text/calendar'
+    )
+  }
+
+  const navButtonClass = 'bg-white/5 hover:bg-white/10 text-blue-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/20'
+
+  return (
+    <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <h3 className="font-bold text-white flex items-center text-xl">
+              <span className="mr-3 text-2xl">📅</span>
+              {server.name} Calendar
+            </h3>
+            <p className="text-blue-200/70 text-sm mt-1">Discussions and due dates across all {clubs.length} clubs</p>
+          </div>
+
+          {/* iCalendar Export */}
+          <div className="flex items-center space-x-2">
+            <select
+              value={icsClubId}
+              onChange={(e) => setIcsClubId(e.target.value)}
+              className="bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200 cursor-pointer"
+            >
+              <option value="" className="bg-slate-800 text-white">All clubs</option>
+              {clubs.map(club => (
+                <option key={club.id} value={club.id} className="bg-slate-800 text-white">{club.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleDownloadIcs}
+              className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/30"
+              title="Download an .ics file to add to your calendar app"
+            >
+              ⬇️ .ics
+            </button>
+          </div>
+        </div>
+
+        {/* Period Controls */}
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setAnchor(shiftAnchor(anchor, mode, -1))} className={navButtonClass}>←</button>
+            <button onClick={() => setAnchor(new Date())} className={navButtonClass}>Today</button>
+            <button onClick={() => setAnchor(shiftAnchor(anchor, mode, 1))} className={navButtonClass}>→</button>
+            <p className="text-white font-bold ml-2">{periodLabel}</p>
+          </div>
+          <div className="flex space-x-2">
+            {(['month', 'week'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 border capitalize ${
+                  mode === option
+                    ? 'bg-orange-500/20 text-orange-200 border-orange-400/40'
+                    : 'bg-white/5 text-blue-200 border-blue-400/20 hover:bg-white/10'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Calendar Grid */}
+      <div className="overflow-x-auto">
+        <div className="min-w-[42rem]">
+          <div className="grid grid-cols-7 border-b border-blue-300/20 bg-blue-500/5">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="py-2 text-center text-blue-200 text-xs font-bold">{day}</div>
+            ))}
+          </div>
+          {weeks.map(week => (
+            <div key={toDateKey(week[0])} className="grid grid-cols-7 border-b border-white/5 last:border-b-0">
+              {week.map(day => {
+                const dayKey = toDateKey(day)
+                const dayEvents = eventsByDay.get(dayKey) ?? []
+                const isOtherMonth = mode === 'month' && day.getMonth() !== anchor.getMonth()
+
+                return (
+                  <div
+                    key={dayKey}
+                    className={`border-r border-white/5 last:border-r-0 p-1.5 ${mode === 'month' ? 'min-h-24' : 'min-h-64'} ${
+                      isOtherMonth ? 'opacity-40' : ''
+                    }`}
+                  >
+                    <p className={`text-xs font-bold mb-1 ${
+                      dayKey === todayKey
+                        ? 'bg-orange-500 text-white rounded-full w-6 h-6 flex items-center justify-center'
+                        : 'text-white/60'
+                    }`}>
+                      {day.getDate()}
+                    </p>
+                    <div className="space-y-1">
+                      {dayEvents.map(event => (
+                        <div
+                          key={event.id}
+                          className={`rounded px-1.5 py-0.5 text-[11px] leading-tight border truncate ${clubColor(event.clubId)}`}
+                          title={`${event.clubName}: ${event.title}${event.location ? ` · ${event.location}` : ''}`}
+                        >
+                          {event.type === 'due' ? '⏰' : '💬'} {event.title}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Club Legend */}
+      {clubs.length > 0 && (
+        <div className="flex flex-wrap gap-2 p-4 border-t border-blue-300/20">
+          {clubs.map(club => (
+            <span key={club.id} className={`px-2 py-1 rounded-full text-xs font-medium border ${clubColor(club.id)}`}>
+              {club.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
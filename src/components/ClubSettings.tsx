@@ -0,0 +1,293 @@
+import { useState } from 'react'
+import { api, getErrorMessage, sendOrQueue } from '../api'
+import { mutateClub } from '../cache'
+import { getClubRules, getTimezoneOptions } from '../clubs'
+import { SESSION_OUTCOMES } from '../sessions'
+import type { Cadence, Club, ClubRules, SessionOutcome } from '../types'
+
+interface ClubSettingsProps {
+  club: Club
+  onSaved: () => void
+  onError: (error: string) => void
+}
+
+interface ClubSettingsFormData {
+  name: string
+  discord_channel: string
+  points_per_book: string
+  shame_threshold: SessionOutcome
+  session_length_days: string
+  discussion_cadence: Cadence
+  discussion_location: string
+  timezone: string
+}
+
+const CADENCE_OPTIONS: { value: Cadence; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every two weeks' }
+]
+
+const MAX_POINTS_PER_BOOK = 1000
+const MAX_SESSION_LENGTH_DAYS = 365
+
+const toFormData = (club: Club): ClubSettingsFormData => {
+  const rules = getClubRules(club)
+  return {
+    name: club.name,
+    discord_channel: club.discord_channel ?? '',
+    points_per_book: String(rules.points_per_book),
+    shame_threshold: rules.shame_threshold,
+    session_length_days: String(rules.session_length_days),
+    discussion_cadence: rules.discussion_cadence,
+    discussion_location: rules.discussion_location,
+    timezone: rules.timezone
+  }
+}
+
+// Whole numbers in [min, max] only; anything else is null
+const parseWholeNumber = (value: string, min: number, max: number): number | null => {
+  const number = Number(value.trim())
+  return value.trim() && Number.isInteger(number) && number >= min && number <= max ? number : null
+}
+
+export default function ClubSettings({ club, onSaved, onError }: ClubSettingsProps) {
+  const [loading, setLoading] = useState(false)
+  const [formData, setFormData] = useState<ClubSettingsFormData>(() => toFormData(club))
+
+  const isDirty = JSON.stringify(formData) !== JSON.stringify(toFormData(club))
+
+  const updateField = <K extends keyof ClubSettingsFormData>(field: K, value: ClubSettingsFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmit = async () => {
+    const name = formData.name.trim()
+    const pointsPerBook = parseWholeNumber(formData.points_per_book, 0, MAX_POINTS_PER_BOOK)
+    const sessionLengthDays = parseWholeNumber(formData.session_length_days, 1, MAX_SESSION_LENGTH_DAYS)
+
+    if (!name) {
+      onError('Club name is required')
+      return
+    }
+    if (pointsPerBook === null) {
+      onError(`Points per book must be a whole number between 0 and ${MAX_POINTS_PER_BOOK}`)
+      return
+    }
+    if (sessionLengthDays === null) {
+      onError(`Session length must be a whole number of days between 1 and ${MAX_SESSION_LENGTH_DAYS}`)
+      return
+    }
+
+    const rules: ClubRules = {
+      points_per_book: pointsPerBook,
+      shame_threshold: formData.shame_threshold,
+      session_length_days: sessionLengthDays,
+      discussion_cadence: formData.discussion_cadence,
+      discussion_location: formData.discussion_location.trim(),
+      timezone: formData.timezone
+    }
+    const discordChannel = formData.discord_channel.trim() || null // Empty is stored as null, like a new club's
+
+    try {
+      setLoading(true)
+      onError('') // Clear any existing errors
+
+      await mutateClub(club.id, {
+        apply: current => ({ ...current, name, discord_channel: discordChannel, rules }),
+        write: () => sendOrQueue(`Edit settings of ${club.name}`, () => api.updateClub({
+          id: club.id,
+          server_id: club.server_id,
+          name,
+          discord_channel: discordChannel,
+          rules
+        }))
+      })
+
+      setFormData(toFormData({ ...club, name, discord_channel: discordChannel, rules }))
+      onSaved()
+
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to save club settings'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const inputClass = 'w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200'
+  const optionClass = 'bg-slate-800 text-white'
+
+  return (
+    <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10">
+        <h3 className="font-bold text-white flex items-center text-xl">
+          <span className="mr-3 text-2xl">⚙️</span>
+          {club.name} Settings
+        </h3>
+        <p className="text-blue-200/70 text-sm mt-1">
+          Rules used as defaults when sessions are started and closed, discussions are scheduled and reminders are sent
+        </p>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {/* General */}
+        <section className="space-y-4">
+          <h4 className="text-white font-bold">📚 General</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-white font-medium mb-2">
+                Club Name <span className="text-orange-400">*</span>
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => updateField('name', e.target.value)}
+                className={inputClass}
+                disabled={loading}
+                maxLength={100}
+              />
+            </div>
+            <div>
+              <label className="block text-white font-medium mb-2">
+                Discord Channel ID <span className="text-white/50">(optional)</span>
+              </label>
+              <input
+                type="text"
+                value={formData.discord_channel}
+                onChange={(e) => updateField('discord_channel', e.target.value)}
+                placeholder="123456789012345678"
+                className={inputClass}
+                disabled={loading}
+              />
+            </div>
+          </div>
+        </section>
+
+        {/* Points & Shame List */}
+        <section className="space-y-4">
+          <h4 className="text-white font-bold">🏆 Points & Shame List</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-white font-medium mb-2">Points per Book</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_POINTS_PER_BOOK}
+                value={formData.points_per_book}
+                onChange={(e) => updateField('points_per_book', e.target.value)}
+                className={inputClass}
+                disabled={loading}
+              />
+              <p className="text-blue-200/60 text-xs mt-1">
+                Suggested when closing a session; a partial read gets half
+              </p>
+            </div>
+            <div>
+              <label className="block text-white font-medium mb-2">Stay Off the Shame List</label>
+              <select
+                value={formData.shame_threshold}
+                onChange={(e) => updateField('shame_threshold', e.target.value as SessionOutcome)}
+                className={`${inputClass} cursor-pointer`}
+                disabled={loading}
+              >
+                {SESSION_OUTCOMES.map(option => (
+                  <option key={option.value} value={option.value} className={optionClass}>
+                    {option.label} or better
+                  </option>
+                ))}
+              </select>
+              <p className="text-blue-200/60 text-xs mt-1">
+                Members below this outcome are added to the shame list when a session closes
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* Sessions & Discussions */}
+        <section className="space-y-4">
+          <h4 className="text-white font-bold">🗓️ Sessions & Discussions</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-white font-medium mb-2">Default Session Length (days)</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_SESSION_LENGTH_DAYS}
+                value={formData.session_length_days}
+                onChange={(e) => updateField('session_length_days', e.target.value)}
+                className={inputClass}
+                disabled={loading}
+              />
+              <p className="text-blue-200/60 text-xs mt-1">Sets the due date suggested for a new session</p>
+            </div>
+            <div>
+              <label className="block text-white font-medium mb-2">Discussion Cadence</label>
+              <select
+                value={formData.discussion_cadence}
+                onChange={(e) => updateField('discussion_cadence', e.target.value as Cadence)}
+                className={`${inputClass} cursor-pointer`}
+                disabled={loading}
+              >
+                {CADENCE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value} className={optionClass}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-white font-medium mb-2">
+                Default Discussion Location <span className="text-white/50">(optional)</span>
+              </label>
+              <input
+                type="text"
+                value={formData.discussion_location}
+                onChange={(e) => updateField('discussion_location', e.target.value)}
+                placeholder="e.g., #book-club voice channel"
+                className={inputClass}
+                disabled={loading}
+              />
+            </div>
+            <div>
+              <label className="block text-white font-medium mb-2">Timezone</label>
+              <select
+                value={formData.timezone}
+                onChange={(e) => updateField('timezone', e.target.value)}
+                className={`${inputClass} cursor-pointer`}
+                disabled={loading}
+              >
+                {getTimezoneOptions(formData.timezone).map(timezone => (
+                  <option key={timezone} value={timezone} className={optionClass}>{timezone}</option>
+                ))}
+              </select>
+              <p className="text-blue-200/60 text-xs mt-1">Discord reminders go out at 9:00 in this timezone</p>
+            </div>
+          </div>
+        </section>
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center justify-between px-6 py-4 border-t border-white/10">
+        <button
+          onClick={() => setFormData(toFormData(club))}
+          className="text-white/60 hover:text-white disabled:opacity-50 transition-colors font-medium"
+          disabled={loading || !isDirty}
+        >
+          Reset
+        </button>
+
+        <button
+          onClick={handleSubmit}
+          disabled={loading || !isDirty}
+          className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
+        >
+          {loading ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+              <span>Saving...</span>
+            </>
+          ) : (
+            <span>Save Settings</span>
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import type { ClubView } from '../routing'
+
+interface ClubViewTabsProps {
+  activeView: ClubView
+  onViewChange: (view: ClubView) => void
+  showSettings: boolean // Only admins who can manage clubs may change a club's rules
+}
+
+const TABS: { view: ClubView; label: string; icon: string }[] = [
+  { view: 'overview', label: 'Overview', icon: '📖' },
+  { view: 'members', label: 'Members', icon: '👥' },
+  { view: 'history', label: 'History', icon: '🗂️' },
+  { view: 'stats', label: 'Stats', icon: '📊' },
+  { view: 'activity', label: 'Activity', icon: '🕓' },
+  { view: 'settings', label: 'Settings', icon: '⚙️' }
+]
+
+export default function ClubViewTabs({ activeView, onViewChange, showSettings }: ClubViewTabsProps) {
+  const tabs = showSettings ? TABS : TABS.filter(tab => tab.view !== 'settings')
+
+  return (
+    <div className="flex space-x-2 mt-6">
+      {tabs.map(tab => (
+        <button
+          key={tab.view}
+          onClick={() => onViewChange(tab.view)}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border ${
+            activeView === tab.view
+              ? 'bg-orange-500/20 text-orange-200 border-orange-400/40'
+              : 'bg-white/5 text-blue-200 border-blue-400/20 hover:bg-white/10'
+          }`}
+        >
+          <span className="mr-2">{tab.icon}</span>
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  )
+}
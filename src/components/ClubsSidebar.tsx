@@ -1,3 +1,4 @@
+import type { ServerView } from '../routing'
 import type { Server, Club } from '../types'
 
 interface ClubsSidebarProps {
@@ -6,15 +7,40 @@ interface ClubsSidebarProps {
   onClubSelect: (clubId: string) => void
   onAddClub: () => void
   onDeleteClub: (club: { id: string; name: string }) => void
+  onClubSettings: (clubId: string) => void
+  onServerViewSelect: (view: ServerView) => void
+  activeServerView: ServerView | null
+  onExport: () => void
+  onImport: () => void
+  canManageClubs: boolean
+  canManageServers: boolean
 }
 
+const SERVER_VIEW_LINKS: { view: ServerView; icon: string; label: string }[] = [
+  { view: 'stats', icon: '📊', label: 'Server statistics' },
+  { view: 'calendar', icon: '📅', label: 'Calendar' },
+  { view: 'duplicates', icon: '👥', label: 'Duplicate members' },
+  { view: 'activity', icon: '🕓', label: 'Activity' },
+  { view: 'trash', icon: '🗑️', label: 'Trash' },
+  { view: 'admin', icon: '🛠️', label: 'Server admin' }
+]
+
 export default function ClubsSidebar({
   selectedServerData,
   selectedClub,
   onClubSelect,
   onAddClub,
-  onDeleteClub
+  onDeleteClub,
+  onClubSettings,
+  onServerViewSelect,
+  activeServerView,
+  onExport,
+  onImport,
+  canManageClubs,
+  canManageServers
 }: ClubsSidebarProps) {
+  const serverViewLinks = canManageServers ? SERVER_VIEW_LINKS : SERVER_VIEW_LINKS.filter(link => link.view !== 'admin')
+
   return (
     <div className="lg:col-span-1">
       <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
@@ -27,12 +53,14 @@ export default function ClubsSidebar({
               </h2>
               <p className="text-blue-200/70 text-sm">{selectedServerData?.clubs.length || 0} active clubs</p>
             </div>
-            <button 
-              onClick={onAddClub}
-              className="bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white px-4 py-2 rounded-xl text-sm font-bold transition-all duration-200 hover:scale-105 hover:shadow-lg active:scale-95 shadow-md"
-            >
-              + Add Club
-            </button>
+            {canManageClubs && (
+              <button 
+                onClick={onAddClub}
+                className="bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white px-4 py-2 rounded-xl text-sm font-bold transition-all duration-200 hover:scale-105 hover:shadow-lg active:scale-95 shadow-md"
+              >
+                + Add Club
+              </button>
+            )}
           </div>
         </div>
         
@@ -41,10 +69,12 @@ export default function ClubsSidebar({
             <div className="p-8 text-center">
               <div className="text-4xl mb-3">📖</div>
               <p className="text-white/60 font-medium">No clubs found</p>
-              <p className="text-blue-200/50 text-sm mt-1">Create your first book club!</p>
+              <p className="text-blue-200/50 text-sm mt-1">
+                {canManageClubs ? 'Create your first book club!' : 'Ask a server admin to create one'}
+              </p>
             </div>
           ) : (
-            selectedServerData?.clubs.map((club, index) => (
+            selectedServerData?.clubs.map(club => (
               <div 
                 key={club.id}
                 className={`relative p-4 cursor-pointer transition-all duration-300 border-b border-white/5 last:border-b-0 hover:bg-white/8 group ${
@@ -56,17 +86,31 @@ export default function ClubsSidebar({
                     : undefined
                 }}
               >
-                {/* Delete Button - Top Right, appears on hover */}
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation() // Prevent club selection
-                    onDeleteClub({ id: club.id, name: club.name })
-                  }}
-                  className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-red-500/20 hover:bg-red-500/30 text-red-300 hover:text-red-200 p-1.5 rounded-lg border border-red-400/30 hover:border-red-400/50"
-                  title={`Delete ${club.name}`}
-                >
-                  <span className="text-sm">🗑️</span>
-                </button>
+                {/* Settings & Delete Buttons - Top Right, appear on hover */}
+                {canManageClubs && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation() // Prevent club selection
+                      onClubSettings(club.id)
+                    }}
+                    className="absolute top-2 right-11 opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 hover:text-white p-1.5 rounded-lg border border-blue-400/30 hover:border-blue-400/50"
+                    title={`${club.name} settings`}
+                  >
+                    <span className="text-sm">⚙️</span>
+                  </button>
+                )}
+                {canManageClubs && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation() // Prevent club selection
+                      onDeleteClub({ id: club.id, name: club.name })
+                    }}
+                    className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-red-500/20 hover:bg-red-500/30 text-red-300 hover:text-red-200 p-1.5 rounded-lg border border-red-400/30 hover:border-red-400/50"
+                    title={`Delete ${club.name}`}
+                  >
+                    <span className="text-sm">🗑️</span>
+                  </button>
+                )}
 
                 {/* Club Content - clickable area */}
                 <div 
@@ -97,6 +141,46 @@ export default function ClubsSidebar({
             ))
           )}
         </div>
+
+        {/* Server Views */}
+        {selectedServerData && (
+          <div className="border-t border-blue-300/20">
+            {serverViewLinks.map(link => (
+              <button
+                key={link.view}
+                onClick={() => onServerViewSelect(link.view)}
+                className={`w-full p-4 text-left text-sm font-medium transition-all duration-200 ${
+                  activeServerView === link.view ? 'bg-orange-500/20 text-orange-200' : 'text-blue-200 hover:bg-white/8'
+                }`}
+              >
+                <span className="mr-2">{link.icon}</span>
+                {link.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Import / Export */}
+        {selectedServerData && (
+          <div className="flex border-t border-blue-300/20">
+            <button
+              onClick={onExport}
+              className="flex-1 p-4 text-left text-sm font-medium text-blue-200 hover:bg-white/8 transition-all duration-200"
+            >
+              <span className="mr-2">📤</span>
+              Export
+            </button>
+            {canManageClubs && (
+              <button
+                onClick={onImport}
+                className="flex-1 p-4 text-left text-sm font-medium text-blue-200 hover:bg-white/8 border-l border-blue-300/20 transition-all duration-200"
+              >
+                <span className="mr-2">📥</span>
+                Import
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
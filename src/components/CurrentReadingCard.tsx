@@ -4,12 +4,18 @@ interface CurrentReadingCardProps {
   selectedClub: Club
   onEditBook: () => void
   onNewSession: () => void
+  onCloseSession: () => void
+  canManageSessions: boolean
+  canCloseSession: boolean
 }
 
 export default function CurrentReadingCard({
   selectedClub,
   onEditBook,
-  onNewSession
+  onNewSession,
+  onCloseSession,
+  canManageSessions,
+  canCloseSession
 }: CurrentReadingCardProps) {
   if (!selectedClub.active_session) {
     // Empty state when no active session
@@ -21,12 +27,14 @@ export default function CurrentReadingCard({
           </div>
           <h3 className="text-2xl font-bold text-white mb-3">No Active Reading</h3>
           <p className="text-white/60 mb-6">This club doesn't have an active reading session. Start one to get the conversation going!</p>
-          <button 
-            onClick={onNewSession}
-            className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 text-white px-6 py-3 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg"
-          >
-            + Start New Session
-          </button>
+          {canManageSessions && (
+            <button 
+              onClick={onNewSession}
+              className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 text-white px-6 py-3 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg"
+            >
+              + Start New Session
+            </button>
+          )}
         </div>
       </div>
     )
@@ -63,20 +71,30 @@ export default function CurrentReadingCard({
             </div>
             
             {/* Action Buttons Area - Top Right */}
-            <div className="hidden md:flex space-x-3">
-              <button 
-                onClick={onEditBook}
-                className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/30"
-              >
-                Edit Book
-              </button>
-              <button 
-                onClick={onNewSession}
-                className="bg-orange-500/20 hover:bg-orange-500/30 text-orange-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-orange-400/30"
-              >
-                New Session
-              </button>
-            </div>
+            {canManageSessions && (
+              <div className="hidden md:flex space-x-3">
+                <button 
+                  onClick={onEditBook}
+                  className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/30"
+                >
+                  Edit Book
+                </button>
+                <button 
+                  onClick={onNewSession}
+                  className="bg-orange-500/20 hover:bg-orange-500/30 text-orange-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-orange-400/30"
+                >
+                  New Session
+                </button>
+                {canCloseSession && (
+                  <button 
+                    onClick={onCloseSession}
+                    className="bg-green-500/20 hover:bg-green-500/30 text-green-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-green-400/30"
+                  >
+                    Close Session
+                  </button>
+                )}
+              </div>
+            )}
           </div>
           
           <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
@@ -94,6 +112,12 @@ export default function CurrentReadingCard({
                     📕 {selectedClub.active_session.book.edition} Edition
                   </p>
                 )}
+
+                {selectedClub.active_session.book.page_count && (
+                  <p className="text-blue-200/80 mb-3 font-medium">
+                    📄 {selectedClub.active_session.book.page_count} pages
+                  </p>
+                )}
                 
                 {/* Due Date and Next Discussion Section */}
                 <div className="space-y-3">
@@ -132,15 +156,23 @@ export default function CurrentReadingCard({
                 </div>
               </div>
               
-              {/* Book Cover Placeholder - Right side of book info */}
+              {/* Book Cover (or placeholder) - Right side of book info */}
               <div className="hidden md:block">
-                <div className="w-32 h-44 bg-gradient-to-b from-orange-400 to-blue-500 rounded-lg shadow-2xl flex items-center justify-center border-4 border-white/20">
-                  <div className="text-center text-white">
-                    <div className="text-3xl mb-2">📚</div>
-                    <div className="text-xs font-bold">BOOK</div>
-                    <div className="text-xs">COVER</div>
+                {selectedClub.active_session.book.cover_url ? (
+                  <img
+                    src={selectedClub.active_session.book.cover_url}
+                    alt={`Cover of ${selectedClub.active_session.book.title}`}
+                    className="w-32 h-44 object-cover rounded-lg shadow-2xl border-4 border-white/20"
+                  />
+                ) : (
+                  <div className="w-32 h-44 bg-gradient-to-b from-orange-400 to-blue-500 rounded-lg shadow-2xl flex items-center justify-center border-4 border-white/20">
+                    <div className="text-center text-white">
+                      <div className="text-3xl mb-2">📚</div>
+                      <div className="text-xs font-bold">BOOK</div>
+                      <div className="text-xs">COVER</div>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             </div>
           </div>
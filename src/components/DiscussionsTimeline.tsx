@@ -1,30 +1,28 @@
 import { useEffect, useRef } from 'react'
-import type { Club } from '../types'
+import { isPendingDiscussion } from '../cache'
+import type { Club, Discussion } from '../types'
 
 interface DiscussionsTimelineProps {
   selectedClub: Club
   onAddDiscussion: () => void
-  onEditDiscussion?: (discussion: any) => void
-  onDeleteDiscussion?: (discussion: any) => void
+  onEditDiscussion?: (discussion: Discussion) => void
+  onDeleteDiscussion?: (discussion: Discussion) => void
+  canManageDiscussions: boolean
 }
 
 export default function DiscussionsTimeline({ 
   selectedClub, 
   onAddDiscussion,
   onEditDiscussion,
-  onDeleteDiscussion 
+  onDeleteDiscussion,
+  canManageDiscussions
 }: DiscussionsTimelineProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
-  // Don't show timeline if no active session
-  if (!selectedClub.active_session) {
-    return null
-  }
-
   const now = new Date()
   
   // Sort discussions chronologically
-  const sortedDiscussions = [...selectedClub.active_session.discussions].sort(
+  const sortedDiscussions = [...(selectedClub.active_session?.discussions ?? [])].sort(
     (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
   )
 
@@ -57,6 +55,11 @@ export default function DiscussionsTimeline({
     }
   }, [nextDiscussionIndex, sortedDiscussions.length])
 
+  // Don't show timeline if no active session
+  if (!selectedClub.active_session) {
+    return null
+  }
+
   // Helper function to format date
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
@@ -81,14 +84,16 @@ export default function DiscussionsTimeline({
           </div>
           
           {/* Action Button Area - Top Right */}
-          <div className="hidden md:flex">
-            <button 
-              onClick={onAddDiscussion}
-              className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/30"
-            >
-              + Add Discussion
-            </button>
-          </div>
+          {canManageDiscussions && (
+            <div className="hidden md:flex">
+              <button 
+                onClick={onAddDiscussion}
+                className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/30"
+              >
+                + Add Discussion
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -135,28 +140,32 @@ export default function DiscussionsTimeline({
                         : 'border-blue-400/30 hover:border-orange-400/50'
                     }`}>
                       
-                      {/* Edit/Delete buttons - appear on hover */}
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          onEditDiscussion?.(discussion)
-                        }}
-                        className="absolute top-2 right-12 opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 hover:text-blue-200 p-1.5 rounded-lg border border-blue-400/30 hover:border-blue-400/50"
-                        title="Edit discussion"
-                      >
-                        <span className="text-sm">✏️</span>
-                      </button>
-                      
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          onDeleteDiscussion?.(discussion)
-                        }}
-                        className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-red-500/20 hover:bg-red-500/30 text-red-300 hover:text-red-200 p-1.5 rounded-lg border border-red-400/30 hover:border-red-400/50"
-                        title="Delete discussion"
-                      >
-                        <span className="text-sm">🗑️</span>
-                      </button>
+                      {/* Edit/Delete buttons - appear on hover, once a discussion added offline has synced */}
+                      {canManageDiscussions && !isPendingDiscussion(discussion) && (
+                        <>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              onEditDiscussion?.(discussion)
+                            }}
+                            className="absolute top-2 right-12 opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 hover:text-blue-200 p-1.5 rounded-lg border border-blue-400/30 hover:border-blue-400/50"
+                            title="Edit discussion"
+                          >
+                            <span className="text-sm">✏️</span>
+                          </button>
+                          
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              onDeleteDiscussion?.(discussion)
+                            }}
+                            className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 bg-red-500/20 hover:bg-red-500/30 text-red-300 hover:text-red-200 p-1.5 rounded-lg border border-red-400/30 hover:border-red-400/50"
+                            title="Delete discussion"
+                          >
+                            <span className="text-sm">🗑️</span>
+                          </button>
+                        </>
+                      )}
 
                       {/* Status Indicator */}
                       <div className={`inline-flex items-center px-2 py-1 rounded-lg text-xs font-bold mb-3 ${
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback } from 'react'
+import { api, getErrorMessage } from '../api'
+import { useAuth } from '../auth'
+import { fetchServerClubs, loadServerClubs } from '../cache'
+import { findDuplicateMembers, previewMerge } from '../members'
+import type { DuplicateGroup, DuplicateReason } from '../members'
+import { getUniqueMembers } from '../stats'
+import type { Club, Member, Server } from '../types'
+
+interface DuplicateMembersViewProps {
+  server: Server
+  onError: (error: string) => void
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  name: 'Same name',
+  discord_id: 'Same Discord ID'
+}
+
+// Per group: which member survives and which of the others are merged into it
+interface GroupSelection {
+  targetId: Member['id']
+  excludedIds: Member['id'][]
+}
+
+export default function DuplicateMembersView({ server, onError }: DuplicateMembersViewProps) {
+  const { can } = useAuth()
+  const [clubs, setClubs] = useState<Club[] | null>(null)
+  const [selections, setSelections] = useState<Record<string, GroupSelection>>({})
+  const [confirmingKey, setConfirmingKey] = useState<string | null>(null)
+  const [mergingKey, setMergingKey] = useState<string | null>(null)
+
+  // After a merge every club may have changed, so `fresh` skips cached copies
+  const fetchClubs = useCallback(async (fresh = false) => {
+    try {
+      setClubs(await (fresh ? fetchServerClubs(server) : loadServerClubs(server)))
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to load members'))
+      setClubs([])
+    }
+  }, [server, onError])
+
+  useEffect(() => {
+    setClubs(null)
+    fetchClubs()
+  }, [fetchClubs])
+
+  if (!clubs) {
+    return (
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-12 flex justify-center shadow-xl">
+        <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-200 border-t-transparent"></div>
+      </div>
+    )
+  }
+
+  const groups = findDuplicateMembers(getUniqueMembers(clubs))
+  const clubName = (clubId: string) => clubs.find(club => club.id === clubId)?.name ?? clubId
+
+  // The highest-scoring member is kept by default
+  const getSelection = (group: DuplicateGroup): GroupSelection =>
+    selections[group.key] ?? { targetId: group.members[0].id, excludedIds: [] }
+
+  const updateSelection = (group: DuplicateGroup, change: Partial<GroupSelection>) => {
+    setSelections(prev => ({ ...prev, [group.key]: { ...getSelection(group), ...change } }))
+    setConfirmingKey(null)
+  }
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const { targetId, excludedIds } = getSelection(group)
+    const sources = group.members.filter(member => member.id !== targetId && !excludedIds.includes(member.id))
+
+    // Every club that references one of the members is rewritten, so all of them must be manageable
+    const affectedClubs = clubs.filter(club =>
+      club.members.some(member => member.id === targetId || sources.some(source => source.id === member.id))
+    )
+    const forbidden = affectedClubs.find(club => !can('manage_members', { serverId: server.id, clubId: club.id }))
+    if (forbidden) {
+      onError(`You do not have permission to manage members in ${forbidden.name}`)
+      return
+    }
+
+    try {
+      setMergingKey(group.key)
+      onError('') // Clear any existing errors
+      await api.mergeMembers({ target_id: targetId, source_ids: sources.map(source => source.id) })
+      setConfirmingKey(null)
+      await fetchClubs(true)
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to merge members'))
+    } finally {
+      setMergingKey(null)
+    }
+  }
+
+  return (
+    <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10">
+        <h3 className="font-bold text-white flex items-center text-xl">
+          <span className="mr-3 text-2xl">👥</span>
+          Duplicate Members
+        </h3>
+        <p className="text-blue-200/70 text-sm mt-1">
+          Members across {server.name} that share a name or a linked Discord account
+        </p>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-white/60 text-sm text-center py-12">✨ No likely duplicates found</p>
+      ) : (
+        <div className="divide-y divide-white/10">
+          {groups.map(group => {
+            const { targetId, excludedIds } = getSelection(group)
+            const target = group.members.find(member => member.id === targetId) ?? group.members[0]
+            const sources = group.members.filter(member => member.id !== target.id && !excludedIds.includes(member.id))
+            const preview = previewMerge(target, sources, clubs)
+            const isMerging = mergingKey === group.key
+
+            return (
+              <div key={group.key} className="p-5">
+                <div className="flex items-center space-x-2 mb-3">
+                  {group.reasons.map(reason => (
+                    <span key={reason} className="px-2 py-0.5 rounded-full text-xs font-bold border bg-orange-500/20 text-orange-200 border-orange-400/30">
+                      {REASON_LABELS[reason]}
+                    </span>
+                  ))}
+                </div>
+
+                {/* Candidates */}
+                <ul className="space-y-2">
+                  {group.members.map(member => {
+                    const isTarget = member.id === target.id
+                    const isIncluded = isTarget || !excludedIds.includes(member.id)
+
+                    return (
+                      <li
+                        key={member.id}
+                        className={`flex items-center justify-between rounded-lg p-3 border ${
+                          isTarget ? 'bg-green-500/10 border-green-400/30' : 'bg-white/5 border-white/10'
+                        } ${isIncluded ? '' : 'opacity-50'}`}
+                      >
+                        <div className="flex items-center space-x-3 min-w-0">
+                          <input
+                            type="checkbox"
+                            checked={isIncluded}
+                            disabled={isTarget || isMerging}
+                            onChange={() => updateSelection(group, {
+                              excludedIds: isIncluded
+                                ? [...excludedIds, member.id]
+                                : excludedIds.filter(id => id !== member.id)
+                            })}
+                            className="h-4 w-4 accent-orange-500 cursor-pointer"
+                            aria-label={`Include ${member.name}`}
+                          />
+                          <div className="min-w-0">
+                            <p className="text-white text-sm font-medium truncate">
+                              {member.name} <span className="text-white/40 font-mono text-xs">#{member.id}</span>
+                            </p>
+                            <p className="text-blue-200/60 text-xs truncate">
+                              {member.points} pts · {member.books_read} books · {member.clubs.map(clubName).join(', ')}
+                              {member.discord_id && ` · Discord ${member.discord_id}`}
+                            </p>
+                          </div>
+                        </div>
+                        <label className="flex items-center space-x-2 text-xs text-white/70 flex-shrink-0 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={`keep-${group.key}`}
+                            checked={isTarget}
+                            disabled={isMerging}
+                            onChange={() => updateSelection(group, {
+                              targetId: member.id,
+                              excludedIds: excludedIds.filter(id => id !== member.id)
+                            })}
+                            className="accent-green-500"
+                          />
+                          <span>Keep</span>
+                        </label>
+                      </li>
+                    )
+                  })}
+                </ul>
+
+                {/* Merge Preview & Confirmation */}
+                {confirmingKey === group.key ? (
+                  <div className="mt-3 bg-blue-500/10 border border-blue-400/20 rounded-xl p-3">
+                    <p className="text-white text-sm">
+                      Merge {sources.length} into <span className="font-bold">{preview.name}</span>: {preview.points} pts,{' '}
+                      {preview.books_read} books, clubs {preview.clubs.map(clubName).join(', ')}
+                      {preview.shameClubIds.length > 0 && `, on the shame list in ${preview.shameClubIds.map(clubName).join(', ')}`}.
+                    </p>
+                    <p className="text-blue-200/60 text-xs mt-1">The other records are deleted. This cannot be undone.</p>
+                    <div className="flex justify-end space-x-3 mt-3">
+                      <button
+                        onClick={() => setConfirmingKey(null)}
+                        disabled={isMerging}
+                        className="text-white/60 hover:text-white transition-colors text-sm font-medium"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleMerge(group)}
+                        disabled={isMerging}
+                        className="bg-gradient-to-r from-blue-500 to-orange-500 hover:from-blue-600 hover:to-orange-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-bold transition-all duration-200 shadow-lg flex items-center space-x-2"
+                      >
+                        {isMerging ? (
+                          <>
+                            <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                            <span>Merging...</span>
+                          </>
+                        ) : (
+                          <span>Confirm Merge</span>
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end mt-3">
+                    <button
+                      onClick={() => setConfirmingKey(group.key)}
+                      disabled={sources.length === 0 || mergingKey !== null}
+                      className="bg-orange-500/20 hover:bg-orange-500/30 disabled:opacity-50 disabled:cursor-not-allowed text-orange-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-orange-400/30"
+                    >
+                      Merge {sources.length} into {target.name}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { useAuth } from '../auth'
+import { getErrorMessage } from '../api'
+
+export default function LoginScreen() {
+  const { signInWithEmail, signInWithDiscord } = useAuth()
+  const [email, setEmail] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [linkSent, setLinkSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleMagicLink = async () => {
+    if (!email.trim()) {
+      setError('Email is required')
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      await signInWithEmail(email.trim())
+      setLinkSent(true)
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to send magic link'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDiscord = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      await signInWithDiscord() // Redirects away on success
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to sign in with Discord'))
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-slate-900 to-blue-900 flex items-center justify-center p-4">
+      <div className="bg-gradient-to-br from-slate-800 via-blue-900 to-slate-800 rounded-2xl border border-blue-300/30 p-8 w-full max-w-md shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center space-x-3 mb-8">
+          <div className="h-12 w-12 bg-gradient-to-r from-blue-500 to-orange-500 rounded-xl flex items-center justify-center shadow-lg">
+            <span className="text-white font-bold text-xl">📖</span>
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-200 to-orange-200 bg-clip-text text-transparent">
+              Book Club Central
+            </h1>
+            <p className="text-blue-200/70 text-sm">Sign in to the admin dashboard</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-500/20 border border-red-400/30 rounded-xl p-3">
+            <p className="text-red-100 text-sm font-medium">⚠️ {error}</p>
+          </div>
+        )}
+
+        {linkSent ? (
+          <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-4 text-center">
+            <div className="text-3xl mb-2">📬</div>
+            <p className="text-white font-medium">Check your inbox</p>
+            <p className="text-blue-200/70 text-sm mt-1">
+              We sent a sign-in link to <span className="text-white">{email.trim()}</span>
+            </p>
+            <button
+              onClick={() => setLinkSent(false)}
+              className="mt-4 text-blue-300 hover:text-blue-200 text-sm font-medium transition-colors"
+            >
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Discord OAuth */}
+            <button
+              onClick={handleDiscord}
+              disabled={loading}
+              className="w-full bg-indigo-500 hover:bg-indigo-600 disabled:bg-gray-500 disabled:cursor-not-allowed text-white px-6 py-3 rounded-xl font-bold transition-all duration-200 shadow-lg flex items-center justify-center space-x-2"
+            >
+              <img src="/ic-discord.svg" alt="" className="w-5 h-5" />
+              <span>Continue with Discord</span>
+            </button>
+
+            <div className="flex items-center space-x-3">
+              <div className="flex-1 h-px bg-white/10"></div>
+              <span className="text-white/40 text-xs font-medium">OR</span>
+              <div className="flex-1 h-px bg-white/10"></div>
+            </div>
+
+            {/* Email Magic Link */}
+            <div>
+              <label className="block text-white font-medium mb-2">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleMagicLink()}
+                placeholder="you@example.com"
+                className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-transparent transition-all duration-200"
+                disabled={loading}
+              />
+            </div>
+
+            <button
+              onClick={handleMagicLink}
+              disabled={loading || !email.trim()}
+              className="w-full bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-3 rounded-xl font-bold transition-all duration-200 shadow-lg flex items-center justify-center space-x-2"
+            >
+              {loading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                  <span>Sending...</span>
+                </>
+              ) : (
+                <span>Send Magic Link</span>
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
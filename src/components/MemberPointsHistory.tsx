@@ -0,0 +1,215 @@
+import { useState, useEffect, useCallback } from 'react'
+import { api, getErrorMessage } from '../api'
+import { getLedgerTotal, getReversedIds, sortNewestFirst } from '../points'
+import type { Club, Member, PointsEntry } from '../types'
+
+interface MemberPointsHistoryProps {
+  member: Member
+  selectedClub: Club
+  onPointsChanged: (entry: PointsEntry) => void
+  onError: (error: string) => void
+}
+
+interface PointsEntryFormData {
+  amount: string
+  reason: string
+  session_id: string
+}
+
+const emptyFormData: PointsEntryFormData = { amount: '', reason: '', session_id: '' }
+
+export default function MemberPointsHistory({
+  member,
+  selectedClub,
+  onPointsChanged,
+  onError
+}: MemberPointsHistoryProps) {
+  const [entries, setEntries] = useState<PointsEntry[]>([])
+  const [loadingEntries, setLoadingEntries] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [formData, setFormData] = useState<PointsEntryFormData>(emptyFormData)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoadingEntries(true)
+      setEntries(await api.getPointsLedger(member.id))
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to load points history'))
+    } finally {
+      setLoadingEntries(false)
+    }
+  }, [member.id, onError])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  // Sessions an entry can be linked to, newest first
+  const sessions = [
+    ...(selectedClub.active_session ? [selectedClub.active_session] : []),
+    ...[...selectedClub.past_sessions].sort(
+      (a, b) => new Date(b.due_date).getTime() - new Date(a.due_date).getTime()
+    )
+  ]
+  const sessionTitle = (sessionId?: string) =>
+    sessions.find(session => session.id === sessionId)?.book.title
+
+  const reversedIds = getReversedIds(entries)
+  const total = getLedgerTotal(entries)
+
+  const handleAddEntry = async () => {
+    const amount = parseInt(formData.amount)
+    if (isNaN(amount) || amount === 0) {
+      onError('Amount must be a non-zero number')
+      return
+    }
+    if (!formData.reason.trim()) {
+      onError('A reason is required for every points change')
+      return
+    }
+
+    try {
+      setSaving(true)
+      onError('')
+      const entry = await api.createPointsEntry({
+        member_id: member.id,
+        amount,
+        reason: formData.reason.trim(),
+        session_id: formData.session_id || undefined
+      })
+      setFormData(emptyFormData)
+      await fetchEntries()
+      onPointsChanged(entry)
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to add points entry'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReverse = async (entry: PointsEntry) => {
+    try {
+      setSaving(true)
+      onError('')
+      const reversal = await api.reversePointsEntry(entry.id, `Reversal of "${entry.reason}"`)
+      await fetchEntries()
+      onPointsChanged(reversal)
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to reverse points entry'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'bg-white/10 border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent'
+
+  return (
+    <div className="space-y-4">
+      {/* Ledger Total */}
+      <div className="flex items-center justify-between bg-blue-500/10 border border-blue-400/20 rounded-xl p-3">
+        <p className="text-blue-200 text-sm font-medium">🏆 Ledger total</p>
+        <span className="bg-blue-500/20 text-blue-200 px-3 py-1 rounded-full text-sm font-bold border border-blue-400/30">
+          {total} pts
+        </span>
+      </div>
+
+      {/* New Entry */}
+      <div className="bg-white/5 border border-white/10 rounded-xl p-3 space-y-2">
+        <p className="text-white text-sm font-medium">Award or deduct points</p>
+        <div className="flex space-x-2">
+          <input
+            type="number"
+            value={formData.amount}
+            onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+            placeholder="±pts"
+            className={`${inputClass} w-20`}
+            disabled={saving}
+          />
+          <input
+            type="text"
+            value={formData.reason}
+            onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+            placeholder="Reason, e.g., Hosted a discussion"
+            className={`${inputClass} flex-1 min-w-0`}
+            disabled={saving}
+            maxLength={200}
+          />
+        </div>
+        <div className="flex space-x-2">
+          <select
+            value={formData.session_id}
+            onChange={(e) => setFormData(prev => ({ ...prev, session_id: e.target.value }))}
+            className={`${inputClass} flex-1 min-w-0 cursor-pointer`}
+            disabled={saving}
+          >
+            <option value="" className="bg-slate-800 text-white">No session</option>
+            {sessions.map(session => (
+              <option key={session.id} value={session.id} className="bg-slate-800 text-white">
+                {session.book.title}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAddEntry}
+            disabled={saving || !formData.amount || !formData.reason.trim()}
+            className="bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 disabled:cursor-not-allowed text-blue-100 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200"
+          >
+            Add Entry
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      {loadingEntries ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-blue-200 border-t-transparent"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-white/50 text-sm text-center py-4">No points recorded yet</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto space-y-2">
+          {sortNewestFirst(entries).map(entry => {
+            const isReversed = reversedIds.has(entry.id)
+            const canReverse = !isReversed && !entry.reverses_id
+
+            return (
+              <li
+                key={entry.id}
+                className={`bg-white/5 border border-white/10 rounded-lg p-3 flex items-start justify-between ${
+                  isReversed ? 'opacity-50' : ''
+                }`}
+              >
+                <div className="min-w-0 pr-3">
+                  <p className={`text-white text-sm font-medium ${isReversed ? 'line-through' : ''}`}>
+                    {entry.reason}
+                  </p>
+                  <p className="text-blue-200/60 text-xs mt-1">
+                    {new Date(entry.created_at).toLocaleDateString()} · by {entry.author}
+                    {sessionTitle(entry.session_id) && ` · 📚 ${sessionTitle(entry.session_id)}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <span className={`text-sm font-bold ${entry.amount >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                    {entry.amount > 0 ? '+' : ''}{entry.amount}
+                  </span>
+                  {canReverse && (
+                    <button
+                      type="button"
+                      onClick={() => handleReverse(entry)}
+                      disabled={saving}
+                      className="bg-red-500/20 hover:bg-red-500/30 text-red-300 hover:text-red-200 px-2 py-1 rounded-lg text-xs border border-red-400/30"
+                      title="Record a reversing entry"
+                    >
+                      Reverse
+                    </button>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react'
+import { api, getErrorMessage } from '../api'
+import { useAuth } from '../auth'
+import { invalidateClub, loadClub } from '../cache'
+import { buildMemberProfile } from '../members'
+import type { MemberProfileData } from '../members'
+import type { Member, Server, Session } from '../types'
+
+interface MemberProfileProps {
+  memberId: Member['id']
+  servers: Server[]
+  onOpenClub: (serverId: string, clubId: string) => void
+  onError: (error: string) => void
+}
+
+const formatSession = (session: Session) =>
+  `${session.book.title} · ${new Date(session.due_date).toLocaleDateString()}`
+
+export default function MemberProfile({ memberId, servers, onOpenClub, onError }: MemberProfileProps) {
+  const { can } = useAuth()
+  const [member, setMember] = useState<Member | null>(null)
+  const [profile, setProfile] = useState<MemberProfileData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [joining, setJoining] = useState(false)
+  const [targetClubId, setTargetClubId] = useState('')
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      setLoading(true)
+      const loadedMember = await api.getMember(memberId)
+
+      // Only clubs on servers this user can see are loaded; the rest are counted as hidden
+      const visibleClubs = loadedMember.clubs.flatMap(clubId => {
+        const server = servers.find(candidate => candidate.clubs.some(club => club.id === clubId))
+        return server ? [{ clubId, server }] : []
+      })
+      const [clubs, entries] = await Promise.all([
+        Promise.all(visibleClubs.map(async ({ clubId, server }) => ({
+          club: await loadClub(clubId, server.id),
+          server: { id: server.id, name: server.name }
+        }))),
+        api.getPointsLedger(loadedMember.id)
+      ])
+
+      setMember(loadedMember)
+      setProfile(buildMemberProfile(loadedMember.id, clubs, entries))
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to load member profile'))
+    } finally {
+      setLoading(false)
+    }
+  }, [memberId, servers, onError])
+
+  useEffect(() => {
+    fetchProfile()
+  }, [fetchProfile])
+
+  if (loading && !member) {
+    return (
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-12 flex justify-center shadow-xl">
+        <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-200 border-t-transparent"></div>
+      </div>
+    )
+  }
+
+  if (!member || !profile) {
+    return (
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-12 text-center shadow-xl">
+        <p className="text-white/60">This member could not be found.</p>
+      </div>
+    )
+  }
+
+  const hiddenClubCount = member.clubs.length - profile.clubs.length
+
+  // Clubs this admin may add the member to, grouped by server
+  const joinableServers = servers
+    .map(server => ({
+      server,
+      clubs: server.clubs.filter(club =>
+        !member.clubs.includes(club.id) && can('manage_members', { serverId: server.id, clubId: club.id })
+      )
+    }))
+    .filter(group => group.clubs.length > 0)
+
+  const handleAddToClub = async () => {
+    if (!targetClubId) {
+      onError('Choose a club to add the member to')
+      return
+    }
+
+    try {
+      setJoining(true)
+      onError('') // Clear any existing errors
+      await api.addMemberToClub({ club_id: targetClubId, member_id: member.id })
+      invalidateClub(targetClubId) // Its member list changed behind the cache's back
+      setTargetClubId('')
+      await fetchProfile()
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to add member to club'))
+    } finally {
+      setJoining(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Member Summary */}
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-6 shadow-xl">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-4">
+            <div className="h-14 w-14 bg-gradient-to-r from-blue-500 to-orange-500 rounded-2xl flex items-center justify-center shadow-lg">
+              <span className="text-2xl">👤</span>
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">{member.name}</h2>
+              <p className="text-blue-200/70 text-sm mt-1">
+                Member of {member.clubs.length} club{member.clubs.length === 1 ? '' : 's'}
+                {hiddenClubCount > 0 && ` (${hiddenClubCount} on servers you can't see)`}
+              </p>
+            </div>
+          </div>
+          <div className="flex space-x-3">
+            <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl px-4 py-2 text-center">
+              <p className="text-white text-xl font-bold">{member.points}</p>
+              <p className="text-blue-200/70 text-xs">Total points</p>
+            </div>
+            <div className="bg-orange-500/10 border border-orange-400/20 rounded-xl px-4 py-2 text-center">
+              <p className="text-white text-xl font-bold">{member.books_read}</p>
+              <p className="text-orange-200/70 text-xs">Books read</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Add To Club */}
+        {joinableServers.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-2 mt-6 pt-4 border-t border-white/10">
+            <select
+              value={targetClubId}
+              onChange={(e) => setTargetClubId(e.target.value)}
+              disabled={joining}
+              className="flex-1 bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-2.5 text-white focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200 cursor-pointer"
+            >
+              <option value="" className="bg-slate-800 text-white">Add to another club...</option>
+              {joinableServers.map(({ server, clubs }) => (
+                <optgroup key={server.id} label={server.name} className="bg-slate-800 text-white">
+                  {clubs.map(club => (
+                    <option key={club.id} value={club.id} className="bg-slate-800 text-white">{club.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <button
+              onClick={handleAddToClub}
+              disabled={joining || !targetClubId}
+              className="bg-gradient-to-r from-blue-500 to-orange-500 hover:from-blue-600 hover:to-orange-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-5 py-2.5 rounded-xl font-bold transition-all duration-200 shadow-lg flex items-center justify-center space-x-2"
+            >
+              {joining ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                  <span>Adding...</span>
+                </>
+              ) : (
+                <span>Add to Club</span>
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Per-Club Records */}
+      {profile.clubs.map(record => (
+        <div key={record.club.id} className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-xl">
+          <div className="p-5 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10 flex items-center justify-between">
+            <div>
+              <h3 className="font-bold text-white text-lg">📚 {record.club.name}</h3>
+              <p className="text-blue-200/70 text-xs">{record.server.name}</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="bg-blue-500/20 text-blue-200 px-3 py-1 rounded-full text-sm font-bold border border-blue-400/30">
+                {record.points} pts
+              </span>
+              {record.onShameList ? (
+                <span className="bg-red-500/20 text-red-300 px-3 py-1 rounded-full text-xs font-bold border border-red-400/30">😰 Shame List</span>
+              ) : (
+                <span className="bg-green-500/20 text-green-300 px-3 py-1 rounded-full text-xs font-bold border border-green-400/30">✨ Good Standing</span>
+              )}
+              <button
+                onClick={() => onOpenClub(record.server.id, record.club.id)}
+                className="bg-white/5 hover:bg-white/10 text-blue-200 px-3 py-1 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/20"
+              >
+                Open →
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-5">
+            <div>
+              <p className="text-green-200 text-sm font-bold mb-2">✅ Finished ({record.finishedSessions.length})</p>
+              {record.finishedSessions.length === 0 ? (
+                <p className="text-white/40 text-sm">No finished sessions yet</p>
+              ) : (
+                <ul className="space-y-1">
+                  {record.finishedSessions.map(session => (
+                    <li key={session.id} className="text-white/80 text-sm truncate">{formatSession(session)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div>
+              <p className="text-red-200 text-sm font-bold mb-2">😰 Shame history ({record.shameSessions.length})</p>
+              {record.shameSessions.length === 0 ? (
+                <p className="text-white/40 text-sm">Never on the shame list</p>
+              ) : (
+                <ul className="space-y-1">
+                  {record.shameSessions.map(session => (
+                    <li key={session.id} className="text-white/80 text-sm truncate">{formatSession(session)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {profile.otherPoints !== 0 && (
+        <p className="text-blue-200/60 text-sm text-center">
+          {profile.otherPoints} pts come from entries not tied to a session in these clubs
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,18 +1,82 @@
-import type { Club } from '../types'
+import { isPendingMember } from '../cache'
+import { BULK_MEMBER_ACTIONS, defaultDirection, listMembers, resolveMemberList, toMemberListQuery } from '../members'
+import type { BulkMemberAction, MemberListState } from '../members'
+import type { MemberListQuery, MemberSortKey } from '../routing'
+import type { Club, Member } from '../types'
 
 interface MembersTableProps {
   selectedClub: Club
+  listQuery?: MemberListQuery // Sort, filter and page from the URL
+  onListQueryChange: (query: MemberListQuery | undefined) => void
   onAddMember: () => void
-  onEditMember: (member: any) => void
-  onDeleteMember: (member: any) => void
+  onEditMember: (member: Member) => void
+  onDeleteMember: (member: Member) => void
+  onViewMember: (member: Member) => void
+  selectedMemberIds: Member['id'][]
+  onSelectionChange: (memberIds: Member['id'][]) => void
+  onBulkAction: (action: BulkMemberAction) => void
+  canManageMembers: boolean
 }
 
+const COLUMNS: { key: MemberSortKey; label: string; align: 'left' | 'center' }[] = [
+  { key: 'name', label: 'Reader', align: 'left' },
+  { key: 'points', label: 'Points', align: 'center' },
+  { key: 'books_read', label: 'Books Read', align: 'center' },
+  { key: 'shame', label: 'Status', align: 'left' }
+]
+
 export default function MembersTable({ 
   selectedClub, 
+  listQuery,
+  onListQueryChange,
   onAddMember, 
   onEditMember, 
-  onDeleteMember 
+  onDeleteMember,
+  onViewMember,
+  selectedMemberIds,
+  onSelectionChange,
+  onBulkAction,
+  canManageMembers
 }: MembersTableProps) {
+  const listState = resolveMemberList(listQuery)
+  const { rows, matchCount, page, pageCount } = listMembers(selectedClub, listState)
+  const isFiltered = !!listState.q.trim() || listState.shame
+
+  // Selection survives paging and filtering; the header checkbox acts on the visible page
+  const isSelected = (member: Member) => selectedMemberIds.includes(member.id)
+  // Members created offline can't be acted on until the server has given them a real id
+  const selectableRows = rows.filter(member => !isPendingMember(member))
+  const allRowsSelected = selectableRows.length > 0 && selectableRows.every(isSelected)
+
+  const toggleMember = (member: Member) => {
+    onSelectionChange(
+      isSelected(member)
+        ? selectedMemberIds.filter(id => id !== member.id)
+        : [...selectedMemberIds, member.id]
+    )
+  }
+
+  const togglePage = () => {
+    const rowIds = selectableRows.map(member => member.id)
+    onSelectionChange(
+      allRowsSelected
+        ? selectedMemberIds.filter(id => !rowIds.includes(id))
+        : [...new Set([...selectedMemberIds, ...rowIds])]
+    )
+  }
+
+  const updateList = (changes: Partial<MemberListState>) => {
+    onListQueryChange(toMemberListQuery({ ...listState, ...changes }))
+  }
+
+  // Clicking the active column flips the direction; a new column starts from its natural order
+  const handleSort = (sort: MemberSortKey) => {
+    const dir = sort === listState.sort
+      ? (listState.dir === 'asc' ? 'desc' : 'asc')
+      : defaultDirection(sort)
+    updateList({ sort, dir, page: 1 })
+  }
+
   return (
     <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
       <div className="p-6 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10">
@@ -22,34 +86,139 @@ export default function MembersTable({
               <span className="mr-3 text-2xl">👥</span>
               Club Members ({selectedClub.members.length})
             </h3>
-            <p className="text-blue-200/70 text-sm mt-1">Reading community overview</p>
+            <p className="text-blue-200/70 text-sm mt-1">
+              {isFiltered ? `${matchCount} matching members` : 'Reading community overview'}
+            </p>
           </div>
           
           {/* Add Member Button - Following DiscussionsTimeline pattern */}
-          <div className="hidden md:flex">
-            <button 
-              onClick={onAddMember}
-              className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/30"
+          {canManageMembers && (
+            <div className="hidden md:flex">
+              <button 
+                onClick={onAddMember}
+                className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/30"
+              >
+                + Add Member
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Filter Controls */}
+        {selectedClub.members.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-4">
+            <input
+              type="text"
+              value={listState.q}
+              onChange={(e) => updateList({ q: e.target.value, page: 1 })}
+              placeholder="Filter by name"
+              className="flex-1 bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+            />
+            <button
+              onClick={() => updateList({ shame: !listState.shame, page: 1 })}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border ${
+                listState.shame
+                  ? 'bg-red-500/20 text-red-200 border-red-400/40'
+                  : 'bg-white/5 text-blue-200 border-blue-400/20 hover:bg-white/10'
+              }`}
             >
-              + Add Member
+              😰 Shame list only
             </button>
           </div>
-        </div>
+        )}
+
+        {/* Bulk Actions */}
+        {canManageMembers && selectedMemberIds.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mt-4 bg-orange-500/10 border border-orange-400/20 rounded-xl p-3">
+            <span className="text-orange-200 text-sm font-medium mr-2">
+              {selectedMemberIds.length} selected
+            </span>
+            {BULK_MEMBER_ACTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onBulkAction(option.value)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 border ${
+                  option.value === 'remove_from_club'
+                    ? 'bg-red-500/20 hover:bg-red-500/30 text-red-200 border-red-400/30'
+                    : 'bg-white/5 hover:bg-white/10 text-blue-200 border-blue-400/20'
+                }`}
+              >
+                <span className="mr-1">{option.icon}</span>
+                {option.label}
+              </button>
+            ))}
+            <button
+              onClick={() => onSelectionChange([])}
+              className="text-white/60 hover:text-white text-xs font-medium transition-colors ml-auto"
+            >
+              Clear selection
+            </button>
+          </div>
+        )}
       </div>
       
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead>
             <tr className="border-b border-blue-300/20 bg-blue-500/5">
-              <th className="text-left py-4 px-6 text-blue-200 font-bold">Reader</th>
-              <th className="text-center py-4 px-6 text-blue-200 font-bold">Points</th>
-              <th className="text-center py-4 px-6 text-blue-200 font-bold">Books Read</th>
-              <th className="text-left py-4 px-6 text-blue-200 font-bold">Status</th>
+              {canManageMembers && (
+                <th className="py-4 pl-6 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allRowsSelected}
+                    onChange={togglePage}
+                    className="accent-orange-500 cursor-pointer"
+                    title="Select all on this page"
+                    disabled={selectableRows.length === 0}
+                  />
+                </th>
+              )}
+              {COLUMNS.map(column => (
+                <th
+                  key={column.key}
+                  className={`py-4 px-6 text-blue-200 font-bold ${column.align === 'center' ? 'text-center' : 'text-left'}`}
+                  aria-sort={listState.sort === column.key ? (listState.dir === 'asc' ? 'ascending' : 'descending') : 'none'}
+                >
+                  <button
+                    onClick={() => handleSort(column.key)}
+                    className="hover:text-white transition-colors inline-flex items-center"
+                  >
+                    {column.label}
+                    <span className={`ml-1 text-xs ${listState.sort === column.key ? 'text-orange-300' : 'text-white/20'}`}>
+                      {listState.sort === column.key && listState.dir === 'asc' ? '▲' : '▼'}
+                    </span>
+                  </button>
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody>
-            {selectedClub.members.map(member => (
-              <tr key={member.id} className="border-b border-white/5 hover:bg-white/5 transition-all duration-200 group">
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length + (canManageMembers ? 1 : 0)} className="py-8 text-center text-white/60">
+                  {isFiltered ? 'No members match these filters' : 'No members yet'}
+                </td>
+              </tr>
+            )}
+            {rows.map(member => (
+              <tr
+                key={member.id}
+                className={`border-b border-white/5 hover:bg-white/5 transition-all duration-200 group ${
+                  isSelected(member) ? 'bg-orange-500/10' : ''
+                }`}
+              >
+                {canManageMembers && (
+                  <td className="py-4 pl-6 w-4">
+                    <input
+                      type="checkbox"
+                      checked={isSelected(member)}
+                      onChange={() => toggleMember(member)}
+                      className="accent-orange-500 cursor-pointer disabled:cursor-not-allowed"
+                      aria-label={`Select ${member.name}`}
+                      disabled={isPendingMember(member)}
+                    />
+                  </td>
+                )}
                 <td className="py-4 px-6">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center">
@@ -73,33 +242,47 @@ export default function MembersTable({
                           🎮
                         </span>
                       </div>
-                      <span className="text-white font-semibold">{member.name}</span>
+                      {isPendingMember(member) ? (
+                        <span className="text-white font-semibold" title="Saved offline; available once it syncs">
+                          {member.name} <span className="text-blue-200/60 text-xs font-normal">⏳ syncing</span>
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => onViewMember(member)}
+                          className="text-white font-semibold hover:text-orange-200 hover:underline transition-colors"
+                          title="View profile"
+                        >
+                          {member.name}
+                        </button>
+                      )}
                     </div>
 
                     {/* Edit/Delete buttons - appear on hover, hidden on mobile */}
-                    <div className="hidden md:flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          onEditMember(member)
-                        }}
-                        className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 hover:text-blue-200 p-1.5 rounded-lg border border-blue-400/30 hover:border-blue-400/50"
-                        title="Edit member"
-                      >
-                        <span className="text-sm">✏️</span>
-                      </button>
+                    {canManageMembers && !isPendingMember(member) && (
+                      <div className="hidden md:flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onEditMember(member)
+                          }}
+                          className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 hover:text-blue-200 p-1.5 rounded-lg border border-blue-400/30 hover:border-blue-400/50"
+                          title="Edit member"
+                        >
+                          <span className="text-sm">✏️</span>
+                        </button>
                       
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          onDeleteMember(member)
-                        }}
-                        className="bg-red-500/20 hover:bg-red-500/30 text-red-300 hover:text-red-200 p-1.5 rounded-lg border border-red-400/30 hover:border-red-400/50"
-                        title="Delete member"
-                      >
-                        <span className="text-sm">🗑️</span>
-                      </button>
-                    </div>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onDeleteMember(member)
+                          }}
+                          className="bg-red-500/20 hover:bg-red-500/30 text-red-300 hover:text-red-200 p-1.5 rounded-lg border border-red-400/30 hover:border-red-400/50"
+                          title="Delete member"
+                        >
+                          <span className="text-sm">🗑️</span>
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </td>
                 <td className="py-4 px-6 text-center">
@@ -133,6 +316,29 @@ export default function MembersTable({
           </tbody>
         </table>
       </div>
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between px-6 py-4 border-t border-blue-300/20">
+          <button
+            onClick={() => updateList({ page: page - 1 })}
+            disabled={page <= 1}
+            className="bg-white/5 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/20"
+          >
+            ← Previous
+          </button>
+          <p className="text-blue-200/70 text-sm">
+            Page {page} of {pageCount}
+          </p>
+          <button
+            onClick={() => updateList({ page: page + 1 })}
+            disabled={page >= pageCount}
+            className="bg-white/5 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed text-blue-200 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/20"
+          >
+            Next →
+          </button>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
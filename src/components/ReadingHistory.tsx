@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import type { Club, Session } from '../types'
+
+interface ReadingHistoryProps {
+  selectedClub: Club
+}
+
+type SortOrder = 'newest' | 'oldest'
+
+export default function ReadingHistory({ selectedClub }: ReadingHistoryProps) {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest')
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null)
+
+  const pastSessions = selectedClub.past_sessions || []
+
+  // Match on title or author so "have we read this already?" is one search away
+  const matchesSearch = (session: Session) => {
+    const term = searchTerm.trim().toLowerCase()
+    if (!term) return true
+    return (
+      session.book.title.toLowerCase().includes(term) ||
+      session.book.author.toLowerCase().includes(term)
+    )
+  }
+
+  const filteredSessions = pastSessions
+    .filter(matchesSearch)
+    .sort((a, b) => {
+      const difference = new Date(a.due_date).getTime() - new Date(b.due_date).getTime()
+      return sortOrder === 'newest' ? -difference : difference
+    })
+
+  const toggleSession = (sessionId: string) => {
+    setExpandedSessionId(prev => (prev === sessionId ? null : sessionId))
+  }
+
+  return (
+    <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <h3 className="font-bold text-white flex items-center text-xl">
+              <span className="mr-3 text-2xl">🗂️</span>
+              Reading History ({pastSessions.length})
+            </h3>
+            <p className="text-blue-200/70 text-sm mt-1">Every book this club has finished</p>
+          </div>
+
+          {/* Search & Sort Controls */}
+          {pastSessions.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search title or author"
+                className="bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+              />
+              <select
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                className="bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200 cursor-pointer"
+              >
+                <option value="newest" className="bg-slate-800 text-white">Newest first</option>
+                <option value="oldest" className="bg-slate-800 text-white">Oldest first</option>
+              </select>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {pastSessions.length === 0 ? (
+        /* Empty State */
+        <div className="p-8 text-center">
+          <div className="text-4xl mb-3">📚</div>
+          <p className="text-white/60 font-medium">No past sessions yet</p>
+          <p className="text-blue-200/50 text-sm mt-1">Finished books will show up here</p>
+        </div>
+      ) : filteredSessions.length === 0 ? (
+        /* No search results */
+        <div className="p-8 text-center">
+          <div className="text-4xl mb-3">🔍</div>
+          <p className="text-white/60 font-medium">No books match "{searchTerm.trim()}"</p>
+          <p className="text-blue-200/50 text-sm mt-1">Looks like the club hasn't read this one yet</p>
+        </div>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          {filteredSessions.map(session => {
+            const isExpanded = expandedSessionId === session.id
+            const discussions = [...(session.discussions || [])].sort(
+              (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+            )
+
+            return (
+              <div key={session.id} className="border-b border-white/5 last:border-b-0">
+                <button
+                  onClick={() => toggleSession(session.id)}
+                  className="w-full text-left p-4 hover:bg-white/5 transition-all duration-200 flex items-start justify-between group"
+                >
+                  <div className="flex-1 min-w-0 pr-4">
+                    <h4 className="font-bold text-white group-hover:text-blue-200 transition-colors truncate">
+                      {session.book.title}
+                    </h4>
+                    <p className="text-orange-200/90 text-sm font-medium">
+                      by {session.book.author}
+                      {session.book.year && <span className="text-white/50"> · {session.book.year}</span>}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="text-blue-200 text-sm font-medium">
+                      ⏰ {session.due_date ? new Date(session.due_date).toLocaleDateString() : 'No due date'}
+                    </p>
+                    <p className="text-white/50 text-xs mt-1">
+                      💬 {discussions.length} discussion{discussions.length === 1 ? '' : 's'} {isExpanded ? '▲' : '▼'}
+                    </p>
+                  </div>
+                </button>
+
+                {/* Session Discussions */}
+                {isExpanded && (
+                  <div className="px-4 pb-4">
+                    {discussions.length === 0 ? (
+                      <p className="text-white/50 text-sm italic">No discussions were held for this book</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {discussions.map(discussion => (
+                          <li
+                            key={discussion.id}
+                            className="bg-white/5 rounded-lg px-3 py-2 border border-blue-400/20 flex items-center justify-between"
+                          >
+                            <span className="text-white text-sm font-medium truncate pr-3">{discussion.title}</span>
+                            <span className="text-blue-300 text-xs flex-shrink-0">
+                              📅 {new Date(discussion.date).toLocaleDateString()}
+                              {discussion.location && <span className="ml-2">📍 {discussion.location}</span>}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { useEffect } from 'react'
+
+interface RemoteUpdateIndicatorProps {
+  updatedAt: Date | null
+  onDismiss: () => void
+}
+
+const AUTO_DISMISS_MS = 8000
+
+export default function RemoteUpdateIndicator({ updatedAt, onDismiss }: RemoteUpdateIndicatorProps) {
+  // Fade out on its own; a newer update restarts the timer
+  useEffect(() => {
+    if (!updatedAt) return
+    const timer = setTimeout(onDismiss, AUTO_DISMISS_MS)
+    return () => clearTimeout(timer)
+  }, [updatedAt, onDismiss])
+
+  if (!updatedAt) return null
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40">
+      <div className="flex items-center space-x-3 bg-slate-800/90 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 shadow-2xl">
+        <span className="text-lg">🔄</span>
+        <div>
+          <p className="text-white text-sm font-medium">Updated by someone else</p>
+          <p className="text-blue-200/60 text-xs">
+            Refreshed at {updatedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-white/60 hover:text-white transition-colors p-1"
+          title="Dismiss"
+        >
+          <span className="text-sm">✕</span>
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { formatDate, generateSchedule } from '../schedule'
+import type { ProposedDiscussion, ScheduleUnit } from '../schedule'
+import type { Cadence } from '../types'
+
+interface ScheduleBuilderProps {
+  dueDate: string
+  pageCount?: number
+  discussions: ProposedDiscussion[]
+  onChange: (discussions: ProposedDiscussion[]) => void
+  defaultCadence?: Cadence
+  disabled?: boolean
+}
+
+const todayString = () => formatDate(new Date())
+
+export default function ScheduleBuilder({
+  dueDate,
+  pageCount,
+  discussions,
+  onChange,
+  defaultCadence = 'weekly',
+  disabled = false
+}: ScheduleBuilderProps) {
+  const [isOpen, setIsOpen] = useState(discussions.length > 0)
+  const [unit, setUnit] = useState<ScheduleUnit>(pageCount ? 'pages' : 'chapters')
+  const [total, setTotal] = useState(pageCount ? String(pageCount) : '')
+  const [startDate, setStartDate] = useState(todayString)
+  const [cadence, setCadence] = useState<Cadence>(defaultCadence)
+
+  const canGenerate = !!dueDate && !!startDate && parseInt(total) > 0
+
+  const handleGenerate = () => {
+    onChange(generateSchedule({ unit, total: parseInt(total), startDate, dueDate, cadence }))
+  }
+
+  const updateDiscussion = (index: number, changes: Partial<ProposedDiscussion>) => {
+    onChange(discussions.map((discussion, i) => (i === index ? { ...discussion, ...changes } : discussion)))
+  }
+
+  const removeDiscussion = (index: number) => {
+    onChange(discussions.filter((_, i) => i !== index))
+  }
+
+  const addDiscussion = () => {
+    onChange([...discussions, { title: '', date: dueDate }])
+  }
+
+  const handleUnitChange = (nextUnit: ScheduleUnit) => {
+    setUnit(nextUnit)
+    // Pre-fill the page count from book lookup when switching to pages
+    if (nextUnit === 'pages' && pageCount && !total) setTotal(String(pageCount))
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+        className="w-full bg-orange-500/10 hover:bg-orange-500/20 border border-orange-400/20 rounded-xl px-4 py-3 text-orange-200 text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+      >
+        <span>🗓️</span>
+        <span>Plan discussion schedule</span>
+      </button>
+    )
+  }
+
+  const inputClass = 'w-full bg-white/10 border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-transparent'
+
+  return (
+    <div className="bg-orange-500/10 border border-orange-400/20 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-orange-200 text-sm font-medium">🗓️ Discussion Schedule</p>
+        <button
+          type="button"
+          onClick={() => {
+            onChange([])
+            setIsOpen(false)
+          }}
+          className="text-white/60 hover:text-white transition-colors text-sm"
+          disabled={disabled}
+          title="Discard schedule"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Generator Inputs */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex space-x-2">
+          <input
+            type="number"
+            value={total}
+            onChange={(e) => setTotal(e.target.value)}
+            placeholder="Count"
+            min="1"
+            className={inputClass}
+            disabled={disabled}
+          />
+          <select
+            value={unit}
+            onChange={(e) => handleUnitChange(e.target.value as ScheduleUnit)}
+            className={`${inputClass} cursor-pointer`}
+            disabled={disabled}
+          >
+            <option value="chapters" className="bg-slate-800 text-white">Chapters</option>
+            <option value="pages" className="bg-slate-800 text-white">Pages</option>
+          </select>
+        </div>
+        <select
+          value={cadence}
+          onChange={(e) => setCadence(e.target.value as Cadence)}
+          className={`${inputClass} cursor-pointer`}
+          disabled={disabled}
+        >
+          <option value="weekly" className="bg-slate-800 text-white">Weekly</option>
+          <option value="biweekly" className="bg-slate-800 text-white">Every 2 weeks</option>
+        </select>
+        <div>
+          <p className="text-white/50 text-xs mb-1">Start reading</p>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={disabled || !canGenerate}
+            className="w-full bg-orange-500/30 hover:bg-orange-500/40 disabled:opacity-50 disabled:cursor-not-allowed text-orange-100 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200"
+          >
+            {discussions.length > 0 ? 'Regenerate' : 'Generate'}
+          </button>
+        </div>
+      </div>
+
+      {!dueDate && (
+        <p className="text-orange-200/70 text-xs">Pick a due date first; the last discussion lands on it.</p>
+      )}
+
+      {/* Editable Proposal */}
+      {discussions.length > 0 && (
+        <ul className="max-h-56 overflow-y-auto space-y-2">
+          {discussions.map((discussion, index) => (
+            <li key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={discussion.title}
+                onChange={(e) => updateDiscussion(index, { title: e.target.value })}
+                placeholder="Discussion title"
+                className={`${inputClass} flex-1`}
+                disabled={disabled}
+                maxLength={200}
+              />
+              <input
+                type="date"
+                value={discussion.date}
+                onChange={(e) => updateDiscussion(index, { date: e.target.value })}
+                className={`${inputClass} w-40`}
+                disabled={disabled}
+              />
+              <button
+                type="button"
+                onClick={() => removeDiscussion(index)}
+                className="text-red-300 hover:text-red-200 p-1.5 transition-colors"
+                disabled={disabled}
+                title="Remove discussion"
+              >
+                <span className="text-sm">🗑️</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {discussions.length > 0 && (
+        <button
+          type="button"
+          onClick={addDiscussion}
+          className="text-orange-200 hover:text-orange-100 text-sm font-medium transition-colors"
+          disabled={disabled}
+        >
+          + Add discussion
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react'
+import { api, getErrorMessage } from '../api'
+import { useAuth } from '../auth'
+import type { Server } from '../types'
+
+interface ServerAdminViewProps {
+  server: Server // Whose clubs are listed for moving
+  servers: Server[]
+  onAddServer: () => void
+  onMoveClub: (club: { id: string; name: string }) => void
+  onServerRenamed: () => void
+  onError: (error: string) => void
+}
+
+export default function ServerAdminView({
+  server,
+  servers,
+  onAddServer,
+  onMoveClub,
+  onServerRenamed,
+  onError
+}: ServerAdminViewProps) {
+  const { can } = useAuth()
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const managedServers = servers.filter(other => can('manage_servers', { serverId: other.id }))
+  const canCreateServers = can('manage_servers', {})
+
+  const startRename = (target: Server) => {
+    setRenamingId(target.id)
+    setNewName(target.name)
+  }
+
+  const handleRename = async (target: Server) => {
+    const name = newName.trim()
+    if (!name) {
+      onError('Server name is required')
+      return
+    }
+    if (name === target.name) {
+      setRenamingId(null)
+      return
+    }
+
+    try {
+      setSaving(true)
+      onError('') // Clear any existing errors
+      await api.updateServer({ id: target.id, name })
+      setRenamingId(null)
+      onServerRenamed()
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to rename server'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Servers */}
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
+        <div className="p-6 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-white flex items-center text-xl">
+              <span className="mr-3 text-2xl">🛠️</span>
+              Server Admin
+            </h3>
+            <p className="text-blue-200/70 text-sm mt-1">
+              Servers you manage, with their clubs and members
+            </p>
+          </div>
+          {canCreateServers && (
+            <button
+              onClick={onAddServer}
+              className="bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white px-4 py-2 rounded-xl text-sm font-bold transition-all duration-200 hover:scale-105 hover:shadow-lg active:scale-95 shadow-md flex-shrink-0"
+            >
+              + New Server
+            </button>
+          )}
+        </div>
+
+        <ul className="divide-y divide-white/10">
+          {managedServers.map(target => {
+            const isRenaming = renamingId === target.id
+
+            return (
+              <li key={target.id} className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                {isRenaming ? (
+                  <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(target)
+                      if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    className="flex-1 bg-white/10 border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+                    disabled={saving}
+                    maxLength={100}
+                    autoFocus
+                  />
+                ) : (
+                  <div className="min-w-0">
+                    <p className="text-white font-medium truncate">
+                      {target.name}
+                      {target.id === server.id && <span className="text-orange-300 text-xs ml-2">current</span>}
+                    </p>
+                    <p className="text-blue-200/60 text-xs">
+                      {target.clubs.length} club{target.clubs.length === 1 ? '' : 's'} ·{' '}
+                      {target.member_count ?? '—'} member{target.member_count === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                )}
+
+                {isRenaming ? (
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <button
+                      onClick={() => setRenamingId(null)}
+                      disabled={saving}
+                      className="text-white/60 hover:text-white transition-colors text-sm font-medium px-2"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleRename(target)}
+                      disabled={saving || !newName.trim()}
+                      className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 text-white px-3 py-1.5 rounded-lg text-sm font-bold transition-all duration-200"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => startRename(target)}
+                    className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 border border-blue-400/30 flex-shrink-0"
+                  >
+                    ✏️ Rename
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+
+      {/* Clubs on the Current Server */}
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
+        <div className="p-6 border-b border-blue-300/20">
+          <h3 className="font-bold text-white flex items-center text-lg">
+            <span className="mr-3 text-xl">🚚</span>
+            Clubs on {server.name}
+          </h3>
+          <p className="text-blue-200/70 text-sm mt-1">
+            Move a club to another server you manage, along with its sessions and members
+          </p>
+        </div>
+
+        {server.clubs.length === 0 ? (
+          <p className="text-white/60 text-sm text-center py-8">No clubs on this server</p>
+        ) : (
+          <ul className="divide-y divide-white/10">
+            {server.clubs.map(club => (
+              <li key={club.id} className="p-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-white font-medium truncate">{club.name}</p>
+                  {club.discord_channel && <p className="text-blue-300/80 text-xs">#{club.discord_channel}</p>}
+                </div>
+                <button
+                  onClick={() => onMoveClub({ id: club.id, name: club.name })}
+                  disabled={managedServers.length < 2}
+                  title={managedServers.length < 2 ? 'You manage no other server to move it to' : undefined}
+                  className="bg-orange-500/20 hover:bg-orange-500/30 disabled:opacity-50 disabled:cursor-not-allowed text-orange-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 border border-orange-400/30 flex-shrink-0"
+                >
+                  Move…
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
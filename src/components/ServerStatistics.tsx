@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react'
+import { getErrorMessage } from '../api'
+import { loadServerClubs } from '../cache'
+import type { Club, Server } from '../types'
+import StatisticsView from './StatisticsView'
+
+interface ServerStatisticsProps {
+  server: Server
+  onError: (error: string) => void
+}
+
+export default function ServerStatistics({ server, onError }: ServerStatisticsProps) {
+  const [clubs, setClubs] = useState<Club[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadClubs = async () => {
+      try {
+        setClubs(null)
+        const loadedClubs = await loadServerClubs(server)
+        if (!cancelled) setClubs(loadedClubs)
+      } catch (err: unknown) {
+        if (cancelled) return
+        onError(getErrorMessage(err, 'Failed to load server statistics'))
+        setClubs([])
+      }
+    }
+
+    loadClubs()
+    return () => {
+      cancelled = true
+    }
+  }, [server, onError])
+
+  if (!clubs) {
+    return (
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-12 flex justify-center shadow-xl">
+        <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-200 border-t-transparent"></div>
+      </div>
+    )
+  }
+
+  return (
+    <StatisticsView
+      title={`${server.name} Statistics`}
+      subtitle={`Across all ${clubs.length} clubs on this server`}
+      clubs={clubs}
+    />
+  )
+}
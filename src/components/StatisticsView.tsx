@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import {
+  getUniqueMembers,
+  getLeaderboard,
+  getBooksPerMonth,
+  getAverageSessionDays,
+  getDiscussionCount,
+  getShameTimeline,
+  getShameFrequency
+} from '../stats'
+import type { LeaderboardKey } from '../stats'
+import type { Club } from '../types'
+import BarChart from './charts/BarChart'
+import RankedBars from './charts/RankedBars'
+
+interface StatisticsViewProps {
+  title: string
+  subtitle: string
+  clubs: Club[] // One club for club statistics, every club on the server for server statistics
+}
+
+const LEADERBOARDS: { key: LeaderboardKey; label: string; unit: string }[] = [
+  { key: 'points', label: '🏆 Points', unit: 'pts' },
+  { key: 'books_read', label: '📚 Books Read', unit: 'books' }
+]
+
+export default function StatisticsView({ title, subtitle, clubs }: StatisticsViewProps) {
+  const [leaderboardKey, setLeaderboardKey] = useState<LeaderboardKey>('points')
+
+  const members = getUniqueMembers(clubs)
+  const pastSessions = clubs.flatMap(club => club.past_sessions)
+  const allSessions = [
+    ...pastSessions,
+    ...clubs.flatMap(club => (club.active_session ? [club.active_session] : []))
+  ]
+
+  const averageSessionDays = getAverageSessionDays(allSessions)
+  const discussionCount = getDiscussionCount(allSessions)
+  const leaderboard = LEADERBOARDS.find(board => board.key === leaderboardKey)!
+
+  const summary = [
+    { label: 'Members', value: members.length, icon: '👥' },
+    { label: 'Books finished', value: pastSessions.length, icon: '📚' },
+    { label: 'Avg. session', value: averageSessionDays === null ? '—' : `${averageSessionDays} days`, icon: '⏳' },
+    { label: 'Discussions', value: discussionCount, icon: '💬' },
+    {
+      label: 'Discussions / session',
+      value: allSessions.length > 0 ? (discussionCount / allSessions.length).toFixed(1) : '—',
+      icon: '🗣️'
+    }
+  ]
+
+  const cardClass = 'bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-6 shadow-xl'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className={cardClass}>
+        <h3 className="font-bold text-white flex items-center text-xl">
+          <span className="mr-3 text-2xl">📊</span>
+          {title}
+        </h3>
+        <p className="text-blue-200/70 text-sm mt-1">{subtitle}</p>
+
+        {/* Summary Tiles */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-6">
+          {summary.map(tile => (
+            <div key={tile.label} className="bg-white/5 border border-white/10 rounded-xl p-3 text-center">
+              <p className="text-2xl">{tile.icon}</p>
+              <p className="text-white text-xl font-bold mt-1">{tile.value}</p>
+              <p className="text-blue-200/60 text-xs">{tile.label}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Leaderboard */}
+        <div className={cardClass}>
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-white font-bold text-lg">Leaderboard</h4>
+            <div className="flex space-x-2">
+              {LEADERBOARDS.map(board => (
+                <button
+                  key={board.key}
+                  onClick={() => setLeaderboardKey(board.key)}
+                  className={`px-3 py-1 rounded-lg text-xs font-medium transition-all duration-200 border ${
+                    leaderboardKey === board.key
+                      ? 'bg-orange-500/20 text-orange-200 border-orange-400/40'
+                      : 'bg-white/5 text-blue-200 border-blue-400/20 hover:bg-white/10'
+                  }`}
+                >
+                  {board.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <RankedBars
+            items={getLeaderboard(members, leaderboardKey).map(member => ({
+              key: member.id,
+              label: member.name,
+              value: member[leaderboardKey]
+            }))}
+            unit={leaderboard.unit}
+            emptyLabel="No members yet"
+          />
+        </div>
+
+        {/* Books per Month */}
+        <div className={cardClass}>
+          <h4 className="text-white font-bold text-lg mb-1">Books per Month</h4>
+          <p className="text-blue-200/60 text-xs mb-4">Sessions closed in the last 12 months</p>
+          <BarChart data={getBooksPerMonth(pastSessions)} emptyLabel="No books finished in the last year" />
+        </div>
+
+        {/* Shame List Over Time */}
+        <div className={cardClass}>
+          <h4 className="text-white font-bold text-lg mb-1">Shame List Over Time</h4>
+          <p className="text-blue-200/60 text-xs mb-4">Members on the shame list when each session closed</p>
+          <BarChart
+            data={getShameTimeline(pastSessions)}
+            barClassName="fill-red-400"
+            emptyLabel="No closed sessions with shame list records yet"
+          />
+        </div>
+
+        {/* Most Shamed */}
+        <div className={cardClass}>
+          <h4 className="text-white font-bold text-lg mb-1">Shame List Regulars</h4>
+          <p className="text-blue-200/60 text-xs mb-4">Sessions each member finished on the shame list</p>
+          <RankedBars
+            items={getShameFrequency(pastSessions, members).map(({ member, count }) => ({
+              key: member.id,
+              label: member.name,
+              value: count
+            }))}
+            unit="sessions"
+            barClassName="bg-gradient-to-r from-red-500 to-orange-500"
+            emptyLabel="Nobody has been shamed yet ✨"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import type { QueuedWrite, QueuedWriteStatus } from '../api'
+
+interface SyncStatusProps {
+  online: boolean
+  writes: QueuedWrite[]
+  onRetry: (id: string, overwrite?: boolean) => void
+  onDiscard: (id: string) => void
+}
+
+const STATUS_BADGES: Record<QueuedWriteStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'bg-blue-500/20 text-blue-200 border-blue-400/30' },
+  sending: { label: 'Syncing', className: 'bg-orange-500/20 text-orange-200 border-orange-400/30' },
+  failed: { label: 'Failed', className: 'bg-red-500/20 text-red-300 border-red-400/30' },
+  conflict: { label: 'Conflict', className: 'bg-yellow-500/20 text-yellow-200 border-yellow-400/30' }
+}
+
+export default function SyncStatus({ online, writes, onRetry, onDiscard }: SyncStatusProps) {
+  const [open, setOpen] = useState(false)
+
+  if (online && writes.length === 0) return null
+
+  const needsAttention = writes.filter(write => write.status === 'failed' || write.status === 'conflict').length
+  const summary = !online
+    ? `Offline${writes.length > 0 ? ` · ${writes.length} queued` : ''}`
+    : needsAttention > 0
+      ? `${needsAttention} to resolve`
+      : `Syncing ${writes.length}`
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center space-x-2 rounded-xl px-3 py-2 text-sm font-medium border transition-all duration-200 shadow-lg ${
+          needsAttention > 0
+            ? 'bg-red-500/20 text-red-200 border-red-400/30 hover:bg-red-500/30'
+            : 'bg-white/10 text-blue-100 border-blue-300/30 hover:bg-white/15'
+        }`}
+      >
+        <span>{online ? '🔄' : '📴'}</span>
+        <span>{summary}</span>
+      </button>
+
+      {/* Queued Writes */}
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-slate-800/95 backdrop-blur-md border border-blue-300/30 rounded-xl shadow-2xl z-40 overflow-hidden">
+          <div className="p-3 border-b border-white/10">
+            <p className="text-white text-sm font-medium">
+              {online ? 'Back online' : "You're offline"}
+            </p>
+            <p className="text-blue-200/60 text-xs">
+              {online
+                ? 'Changes made offline are sent in the order you made them'
+                : 'Showing the last loaded data. Changes are saved here and sent when you reconnect'}
+            </p>
+          </div>
+
+          {writes.length === 0 ? (
+            <p className="text-white/50 text-xs text-center py-4">No changes waiting</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-white/10">
+              {writes.map(write => {
+                const badge = STATUS_BADGES[write.status]
+                const isSettled = write.status === 'failed' || write.status === 'conflict'
+
+                return (
+                  <li key={write.id} className="p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-white text-sm truncate">{write.label}</p>
+                        <p className="text-blue-200/50 text-xs">{new Date(write.queued_at).toLocaleString()}</p>
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-bold border flex-shrink-0 ${badge.className}`}>
+                        {badge.label}
+                      </span>
+                    </div>
+
+                    {write.error && <p className="text-red-200/80 text-xs mt-1">{write.error}</p>}
+
+                    {isSettled && (
+                      <div className="flex justify-end space-x-3 mt-2">
+                        <button
+                          onClick={() => onDiscard(write.id)}
+                          className="text-white/60 hover:text-white transition-colors text-xs font-medium"
+                        >
+                          {write.status === 'conflict' ? 'Keep server copy' : 'Discard'}
+                        </button>
+                        <button
+                          onClick={() => onRetry(write.id, write.status === 'conflict')}
+                          disabled={!online}
+                          className="bg-orange-500/20 hover:bg-orange-500/30 disabled:opacity-50 text-orange-200 px-2 py-1 rounded-lg text-xs font-medium transition-all duration-200 border border-orange-400/30"
+                        >
+                          {write.status === 'conflict' ? 'Overwrite with mine' : 'Retry'}
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback } from 'react'
+import { api, getErrorMessage } from '../api'
+import { useAuth } from '../auth'
+import { TRASH_ENTITIES, getDaysUntilPurge, getTrashEntity } from '../trash'
+import type { Server, TrashEntity, TrashItem } from '../types'
+
+interface TrashViewProps {
+  server: Server
+  onRestored: (item: TrashItem) => void
+  onError: (error: string) => void
+}
+
+// A member removed from two clubs has two trashed memberships under the same id
+const itemKey = (item: TrashItem) => `${item.entity}:${item.id}:${item.club_id ?? ''}`
+
+export default function TrashView({ server, onRestored, onError }: TrashViewProps) {
+  const { can } = useAuth()
+  const [items, setItems] = useState<TrashItem[] | null>(null)
+  const [filter, setFilter] = useState<TrashEntity | 'all'>('all')
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [confirmingPurgeKey, setConfirmingPurgeKey] = useState<string | null>(null)
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setItems(await api.getTrash(server.id))
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to load trash'))
+      setItems([])
+    }
+  }, [server.id, onError])
+
+  useEffect(() => {
+    setItems(null)
+    fetchTrash()
+  }, [fetchTrash])
+
+  if (!items) {
+    return (
+      <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 p-12 flex justify-center shadow-xl">
+        <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-200 border-t-transparent"></div>
+      </div>
+    )
+  }
+
+  const canManage = (item: TrashItem) =>
+    can(getTrashEntity(item.entity).permission, { serverId: server.id, clubId: item.club_id })
+
+  const visibleItems = filter === 'all' ? items : items.filter(item => item.entity === filter)
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setBusyKey(itemKey(item))
+      onError('') // Clear any existing errors
+      await api.restoreTrashItem(item)
+      setItems(prev => prev?.filter(other => itemKey(other) !== itemKey(item)) ?? null)
+      onRestored(item)
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, `Failed to restore ${item.name}`))
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const handlePurge = async (item: TrashItem) => {
+    try {
+      setBusyKey(itemKey(item))
+      onError('')
+      await api.purgeTrashItem(item)
+      setItems(prev => prev?.filter(other => itemKey(other) !== itemKey(item)) ?? null)
+      setConfirmingPurgeKey(null)
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, `Failed to purge ${item.name}`))
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const filterClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 border ${
+      active
+        ? 'bg-orange-500/20 text-orange-200 border-orange-400/40'
+        : 'bg-white/5 text-blue-200 border-blue-400/20 hover:bg-white/10'
+    }`
+
+  return (
+    <div className="bg-white/8 backdrop-blur-md rounded-2xl border border-blue-300/20 overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-blue-300/20 bg-gradient-to-r from-blue-600/10 to-orange-600/10">
+        <h3 className="font-bold text-white flex items-center text-xl">
+          <span className="mr-3 text-2xl">🗑️</span>
+          Trash
+        </h3>
+        <p className="text-blue-200/70 text-sm mt-1">
+          Deleted clubs, members and discussions on {server.name}, kept until their retention window ends
+        </p>
+
+        {/* Entity Filter */}
+        <div className="flex flex-wrap gap-2 mt-4">
+          <button onClick={() => setFilter('all')} className={filterClass(filter === 'all')}>
+            All ({items.length})
+          </button>
+          {TRASH_ENTITIES.map(info => (
+            <button key={info.entity} onClick={() => setFilter(info.entity)} className={filterClass(filter === info.entity)}>
+              {info.icon} {info.label} ({items.filter(item => item.entity === info.entity).length})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <p className="text-white/60 text-sm text-center py-12">✨ Nothing in the trash</p>
+      ) : (
+        <ul className="divide-y divide-white/10">
+          {visibleItems.map(item => {
+            const key = itemKey(item)
+            const isBusy = busyKey === key
+            const daysLeft = getDaysUntilPurge(item)
+
+            return (
+              <li key={key} className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="text-2xl">{getTrashEntity(item.entity).icon}</span>
+                  <div className="min-w-0">
+                    <p className="text-white font-medium truncate">
+                      {item.name}
+                      {item.club_name && <span className="text-white/50 text-sm"> · {item.club_name}</span>}
+                    </p>
+                    <p className="text-blue-200/60 text-xs">
+                      Deleted {new Date(item.deleted_at).toLocaleDateString()} by {item.deleted_by} ·{' '}
+                      <span className={daysLeft <= 3 ? 'text-red-300' : ''}>
+                        purged in {daysLeft} day{daysLeft === 1 ? '' : 's'}
+                      </span>
+                    </p>
+                  </div>
+                </div>
+
+                {canManage(item) && (
+                  confirmingPurgeKey === key ? (
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <span className="text-red-200 text-sm">Purge for good?</span>
+                      <button
+                        onClick={() => setConfirmingPurgeKey(null)}
+                        disabled={isBusy}
+                        className="text-white/60 hover:text-white transition-colors text-sm font-medium px-2"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handlePurge(item)}
+                        disabled={isBusy}
+                        className="bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 disabled:from-gray-500 disabled:to-gray-600 text-white px-3 py-1.5 rounded-lg text-sm font-bold transition-all duration-200"
+                      >
+                        {isBusy ? 'Purging...' : 'Purge'}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleRestore(item)}
+                        disabled={isBusy}
+                        className="bg-green-500/20 hover:bg-green-500/30 disabled:opacity-50 text-green-200 px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 border border-green-400/30"
+                      >
+                        {isBusy ? 'Restoring...' : '↩️ Restore'}
+                      </button>
+                      <button
+                        onClick={() => setConfirmingPurgeKey(key)}
+                        disabled={isBusy}
+                        className="bg-red-500/20 hover:bg-red-500/30 disabled:opacity-50 text-red-300 px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 border border-red-400/30"
+                      >
+                        Purge
+                      </button>
+                    </div>
+                  )
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
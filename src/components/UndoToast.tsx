@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react'
+import { getTrashEntity } from '../trash'
+import type { TrashItem } from '../types'
+
+interface UndoToastProps {
+  item: TrashItem | null
+  onUndo: (item: TrashItem) => Promise<void>
+  onDismiss: () => void
+}
+
+// Long enough to notice a misclick; afterwards the item is still in the server's trash
+const UNDO_WINDOW_MS = 10000
+
+export default function UndoToast({ item, onUndo, onDismiss }: UndoToastProps) {
+  const [restoring, setRestoring] = useState(false)
+
+  // A newer delete replaces the toast and restarts the timer
+  useEffect(() => {
+    if (!item || restoring) return
+    const timer = setTimeout(onDismiss, UNDO_WINDOW_MS)
+    return () => clearTimeout(timer)
+  }, [item, restoring, onDismiss])
+
+  if (!item) return null
+
+  const handleUndo = async () => {
+    try {
+      setRestoring(true)
+      await onUndo(item)
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <div className="fixed bottom-6 left-6 z-40">
+      <div className="flex items-center space-x-3 bg-slate-800/90 backdrop-blur-md border border-orange-300/30 rounded-xl px-4 py-3 shadow-2xl">
+        <span className="text-lg">🗑️</span>
+        <div>
+          <p className="text-white text-sm font-medium">"{item.name}" moved to trash</p>
+          <p className="text-blue-200/60 text-xs">The {getTrashEntity(item.entity).noun} can also be restored from the Trash later</p>
+        </div>
+        <button
+          onClick={handleUndo}
+          disabled={restoring}
+          className="bg-orange-500/20 hover:bg-orange-500/30 disabled:opacity-50 text-orange-200 px-3 py-1.5 rounded-lg text-sm font-bold transition-all duration-200 border border-orange-400/30"
+        >
+          {restoring ? 'Restoring...' : 'Undo'}
+        </button>
+        <button
+          onClick={onDismiss}
+          disabled={restoring}
+          className="text-white/60 hover:text-white transition-colors p-1"
+          title="Dismiss"
+        >
+          <span className="text-sm">✕</span>
+        </button>
+      </div>
+    </div>
+  )
+}
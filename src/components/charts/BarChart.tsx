@@ -0,0 +1,68 @@
+import type { ChartDatum } from '../../stats'
+
+interface BarChartProps {
+  data: ChartDatum[]
+  barClassName?: string // Tailwind fill class for the bars
+  emptyLabel?: string
+}
+
+const WIDTH = 480
+const HEIGHT = 160
+const LABEL_SPACE = 20
+const VALUE_SPACE = 14
+
+// Plain SVG column chart; scales to its container width without any chart library
+export default function BarChart({
+  data,
+  barClassName = 'fill-orange-400',
+  emptyLabel = 'No data yet'
+}: BarChartProps) {
+  const max = Math.max(0, ...data.map(datum => datum.value))
+
+  if (data.length === 0 || max === 0) {
+    return <p className="text-white/50 text-sm text-center py-8">{emptyLabel}</p>
+  }
+
+  const slot = WIDTH / data.length
+  const barWidth = Math.max(4, slot * 0.6)
+  const plotHeight = HEIGHT - LABEL_SPACE - VALUE_SPACE
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+      {/* Baseline */}
+      <line
+        x1={0}
+        x2={WIDTH}
+        y1={HEIGHT - LABEL_SPACE}
+        y2={HEIGHT - LABEL_SPACE}
+        className="stroke-white/20"
+        strokeWidth={1}
+      />
+      {data.map((datum, index) => {
+        const barHeight = (datum.value / max) * plotHeight
+        const x = index * slot + (slot - barWidth) / 2
+        const y = HEIGHT - LABEL_SPACE - barHeight
+
+        return (
+          <g key={index}>
+            <title>{`${datum.label}: ${datum.value}`}</title>
+            <rect x={x} y={y} width={barWidth} height={barHeight} rx={3} className={barClassName} />
+            {datum.value > 0 && (
+              <text x={x + barWidth / 2} y={y - 4} textAnchor="middle" className="fill-white text-[10px] font-bold">
+                {datum.value}
+              </text>
+            )}
+            <text
+              x={index * slot + slot / 2}
+              y={HEIGHT - 6}
+              textAnchor="middle"
+              className="fill-blue-200/70 text-[10px]"
+            >
+              {datum.label}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
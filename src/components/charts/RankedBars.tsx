@@ -0,0 +1,52 @@
+interface RankedBarsItem {
+  key: string | number
+  label: string
+  value: number
+}
+
+interface RankedBarsProps {
+  items: RankedBarsItem[]
+  unit: string
+  barClassName?: string // Tailwind background class for the bars
+  emptyLabel?: string
+}
+
+const MEDALS = ['🥇', '🥈', '🥉']
+
+// Leaderboard rows with CSS width bars, largest value first
+export default function RankedBars({
+  items,
+  unit,
+  barClassName = 'bg-gradient-to-r from-orange-500 to-blue-500',
+  emptyLabel = 'No data yet'
+}: RankedBarsProps) {
+  const max = Math.max(0, ...items.map(item => item.value))
+
+  if (items.length === 0) {
+    return <p className="text-white/50 text-sm text-center py-8">{emptyLabel}</p>
+  }
+
+  return (
+    <ol className="space-y-2">
+      {items.map((item, index) => (
+        <li key={item.key} className="flex items-center space-x-3">
+          <span className="w-6 text-center text-sm text-white/70 font-bold flex-shrink-0">
+            {MEDALS[index] ?? index + 1}
+          </span>
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-white font-medium truncate pr-2">{item.label}</span>
+              <span className="text-blue-200 flex-shrink-0">{item.value} {unit}</span>
+            </div>
+            <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${barClassName}`}
+                style={{ width: `${max > 0 ? (item.value / max) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react'
-import { supabase } from '../../supabase'
+import { api, getErrorMessage } from '../../api'
+import type { CreateClubRequest } from '../../api'
 import type { Server } from '../../types'
 
 interface AddClubModalProps {
@@ -44,23 +45,14 @@ export default function AddClubModal({
       const clubId = crypto.randomUUID()
 
       // Prepare the request body
-      const requestBody = {
+      const requestBody: CreateClubRequest = {
         id: clubId,
         name: formData.name.trim(),
         server_id: selectedServer,
         discord_channel: formData.discord_channel.trim() || null
       }
 
-      console.log('Creating club:', requestBody)
-
-      const { data, error } = await supabase.functions.invoke('club', {
-        method: 'POST',
-        body: requestBody
-      })
-
-      if (error) throw error
-
-      console.log('Club created successfully:', data)
+      await api.createClub(requestBody)
 
       // Reset form and close modal
       setFormData({ name: '', discord_channel: '' })
@@ -70,12 +62,7 @@ export default function AddClubModal({
       onClubCreated(clubId)
 
     } catch (err: unknown) {
-      console.error('Error creating club:', err)
-      onError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : 'Failed to create club'
-      )
+      onError(getErrorMessage(err, 'Failed to create club'))
     } finally {
       setLoading(false)
     }
@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { api, getErrorMessage } from '../../api'
+
+interface AddServerModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onServerCreated: (serverId: string) => void
+  onError: (error: string) => void
+}
+
+export default function AddServerModal({
+  isOpen,
+  onClose,
+  onServerCreated,
+  onError
+}: AddServerModalProps) {
+  const [loading, setLoading] = useState(false)
+  const [name, setName] = useState('')
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      onError('Server name is required')
+      return
+    }
+
+    try {
+      setLoading(true)
+      onError('') // Clear any existing errors
+
+      const serverId = crypto.randomUUID()
+      await api.createServer({ id: serverId, name: name.trim() })
+
+      // Reset form and close modal
+      setName('')
+      onClose()
+
+      // Notify parent component of successful creation
+      onServerCreated(serverId)
+
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to create server'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    setName('')
+    onError('') // Clear errors when closing
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-800 via-blue-900 to-slate-800 rounded-2xl border border-blue-300/30 p-6 w-full max-w-md shadow-2xl">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-gradient-to-r from-orange-500 to-blue-500 rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-white font-bold text-lg">📡</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Add New Server</h2>
+              <p className="text-blue-200/70 text-sm">Create a server to hold book clubs</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-white/60 hover:text-white transition-colors p-1"
+            disabled={loading}
+          >
+            <span className="text-xl">✕</span>
+          </button>
+        </div>
+
+        {/* Modal Form */}
+        <div className="space-y-4">
+          {/* Server Name Field */}
+          <div>
+            <label className="block text-white font-medium mb-2">
+              Server Name <span className="text-orange-400">*</span>
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Readers Guild"
+              className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-transparent transition-all duration-200"
+              disabled={loading}
+              maxLength={100}
+            />
+            <p className="text-blue-200/60 text-xs mt-1">
+              💡 Clubs can be added or moved here once it exists
+            </p>
+          </div>
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex items-center justify-between mt-6 pt-4 border-t border-white/10">
+          <button
+            onClick={handleClose}
+            className="text-white/60 hover:text-white transition-colors font-medium"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+
+          <button
+            onClick={handleSubmit}
+            disabled={loading || !name.trim()}
+            className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
+          >
+            {loading ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                <span>Creating...</span>
+              </>
+            ) : (
+              <span>Create Server</span>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
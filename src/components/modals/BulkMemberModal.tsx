@@ -0,0 +1,377 @@
+import { useState, useEffect } from 'react'
+import { api, sendOrQueue } from '../../api'
+import type { FollowUp } from '../../api'
+import { useAuth } from '../../auth'
+import { announce, announceFollowUp } from '../../discord'
+import { mutateClub, changeShameList, removeMember, upsertMember } from '../../cache'
+import { BULK_MEMBER_ACTIONS, runForEachMember } from '../../members'
+import type { BulkMemberAction, BulkMemberResult } from '../../members'
+import type { Club, Member } from '../../types'
+
+interface BulkMemberModalProps {
+  isOpen: boolean
+  onClose: () => void
+  action: BulkMemberAction | null
+  members: Member[]
+  selectedClub: Club
+  serverClubs: Pick<Club, 'id' | 'name'>[] // Copy targets on the same server
+  onCompleted: (queued: boolean) => void // queued: some writes wait for the connection, so refetching would drop them
+  onError: (error: string) => void
+}
+
+const STATUS_STYLES: Record<BulkMemberResult['status'], { icon: string; className: string }> = {
+  done: { icon: '✅', className: 'text-green-300' },
+  skipped: { icon: '⏭️', className: 'text-white/60' },
+  failed: { icon: '❌', className: 'text-red-300' }
+}
+
+export default function BulkMemberModal({
+  isOpen,
+  onClose,
+  action,
+  members,
+  selectedClub,
+  serverClubs,
+  onCompleted,
+  onError
+}: BulkMemberModalProps) {
+  const { can } = useAuth()
+  const [loading, setLoading] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [results, setResults] = useState<BulkMemberResult[] | null>(null)
+  const [points, setPoints] = useState('')
+  const [reason, setReason] = useState('')
+  const [targetClubId, setTargetClubId] = useState('')
+
+  const targetClubs = serverClubs.filter(club => club.id !== selectedClub.id)
+
+  // Every run starts from a fresh confirmation
+  useEffect(() => {
+    if (isOpen) {
+      setProgress(0)
+      setResults(null)
+      setPoints('')
+      setReason('')
+      setTargetClubId('')
+    }
+  }, [isOpen])
+
+  const actionInfo = BULK_MEMBER_ACTIONS.find(option => option.value === action)
+  const onShameList = (member: Member) => selectedClub.shame_list.includes(member.id)
+  const targetClubName = targetClubs.find(club => club.id === targetClubId)?.name
+
+  // One line describing exactly what will happen, shown before anything is sent
+  const describeAction = (): string => {
+    const count = `${members.length} member${members.length === 1 ? '' : 's'}`
+    switch (action) {
+      case 'shame_add':
+        return `Add ${count} to ${selectedClub.name}'s shame list`
+      case 'shame_remove':
+        return `Remove ${count} from ${selectedClub.name}'s shame list`
+      case 'award_points':
+        return `Award ${points || 'N'} points to ${count}`
+      case 'increment_books':
+        return `Add one book read for ${count}`
+      case 'remove_from_club':
+        return `Remove ${count} from ${selectedClub.name}`
+      case 'copy_to_club':
+        return `Copy ${count} to ${targetClubName ?? 'another club'}`
+      default:
+        return ''
+    }
+  }
+
+  // Shown on the club right away like a single edit, and queued when offline; null means it was queued
+  const sendMemberWrite = <T,>(clubId: Club['id'], { label, apply, write, queuedFollowUps = [] }: {
+    label: string
+    apply: (club: Club) => Club
+    write: () => Promise<T>
+    queuedFollowUps?: FollowUp[]
+  }) => mutateClub(clubId, { apply, write: () => sendOrQueue(label, write, [], queuedFollowUps) })
+
+  // A queued shame list change can't join the batch message, so it announces itself once it syncs
+  const shameFollowUp = (member: Member, change: 'add' | 'remove') => [announceFollowUp(selectedClub, {
+    type: 'shame_list_changed',
+    added: change === 'add' ? [member.name] : [],
+    removed: change === 'remove' ? [member.name] : []
+  })]
+
+  // Returns a reason when the member is skipped because there is nothing to change
+  const runOperation = async (member: Member, queued: Set<Member['id']>): Promise<string | void> => {
+    const clubRef = { id: selectedClub.id, server_id: selectedClub.server_id }
+    const inClub = `${member.name} in ${selectedClub.name}`
+    let result: unknown
+
+    switch (action) {
+      case 'shame_add':
+        if (onShameList(member)) return 'Already on the shame list'
+        result = await sendMemberWrite(selectedClub.id, {
+          label: `Add ${inClub} to the shame list`,
+          apply: club => changeShameList(club, member.id, 'add'),
+          write: () => api.updateClub({ ...clubRef, shame_list_add: [member.id] }),
+          queuedFollowUps: shameFollowUp(member, 'add')
+        })
+        break
+      case 'shame_remove':
+        if (!onShameList(member)) return 'Not on the shame list'
+        result = await sendMemberWrite(selectedClub.id, {
+          label: `Remove ${inClub} from the shame list`,
+          apply: club => changeShameList(club, member.id, 'remove'),
+          write: () => api.updateClub({ ...clubRef, shame_list_remove: [member.id] }),
+          queuedFollowUps: shameFollowUp(member, 'remove')
+        })
+        break
+      case 'award_points': {
+        const amount = Number(points.trim())
+        result = await sendMemberWrite(selectedClub.id, {
+          label: `Award ${amount} points to ${inClub}`,
+          apply: club => upsertMember(club, { ...member, points: member.points + amount }),
+          write: () => api.createPointsEntry({ member_id: member.id, amount, reason: reason.trim() })
+        })
+        break
+      }
+      case 'increment_books':
+        result = await sendMemberWrite(selectedClub.id, {
+          label: `Add a book read for ${inClub}`,
+          apply: club => upsertMember(club, { ...member, books_read: member.books_read + 1 }),
+          write: () => api.incrementBooksRead({ id: member.id, amount: 1 })
+        })
+        break
+      case 'remove_from_club':
+        result = await sendMemberWrite(selectedClub.id, {
+          label: `Remove ${inClub}`,
+          apply: club => removeMember(club, member.id),
+          write: () => api.removeMemberFromClub({ club_id: selectedClub.id, member_id: member.id })
+        })
+        break
+      case 'copy_to_club':
+        if (member.clubs.includes(targetClubId)) return `Already in ${targetClubName}`
+        result = await sendMemberWrite(targetClubId, {
+          label: `Copy ${member.name} to ${targetClubName}`,
+          apply: club => upsertMember(club, { ...member, clubs: [...member.clubs, targetClubId] }),
+          write: () => api.addMemberToClub({ club_id: targetClubId, member_id: member.id })
+        })
+        break
+    }
+
+    if (result === null) queued.add(member.id)
+  }
+
+  const handleConfirm = async () => {
+    if (!can('manage_members', { serverId: selectedClub.server_id, clubId: selectedClub.id })) {
+      onError('You do not have permission to manage members in this club')
+      return
+    }
+
+    if (action === 'award_points') {
+      const amount = Number(points.trim())
+      if (!points.trim() || !Number.isInteger(amount) || amount === 0) {
+        onError('Points must be a non-zero whole number')
+        return
+      }
+      if (!reason.trim()) {
+        onError('A reason is required for every points change')
+        return
+      }
+    }
+
+    if (action === 'copy_to_club') {
+      if (!targetClubId) {
+        onError('Choose a club to copy the members to')
+        return
+      }
+      if (!can('manage_members', { serverId: selectedClub.server_id, clubId: targetClubId })) {
+        onError(`You do not have permission to manage members in ${targetClubName}`)
+        return
+      }
+    }
+
+    try {
+      setLoading(true)
+      onError('') // Clear any existing errors
+
+      const queued = new Set<Member['id']>()
+      const bulkResults = await runForEachMember(members, member => runOperation(member, queued), setProgress)
+
+      // One shame list message for the whole batch, naming only the members that changed on the server
+      const changedNames = bulkResults
+        .filter(result => result.status === 'done' && !queued.has(result.member.id))
+        .map(result => result.member.name)
+      if ((action === 'shame_add' || action === 'shame_remove') && changedNames.length > 0) {
+        announce(selectedClub, {
+          type: 'shame_list_changed',
+          added: action === 'shame_add' ? changedNames : [],
+          removed: action === 'shame_remove' ? changedNames : []
+        })
+      }
+
+      // Refresh whatever succeeded, even if some members failed
+      onCompleted(queued.size > 0)
+
+      if (bulkResults.some(result => result.status === 'failed')) {
+        setResults(bulkResults)
+      } else {
+        onClose()
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    onError('') // Clear errors when closing
+    onClose()
+  }
+
+  if (!isOpen || !actionInfo) return null
+
+  const failedCount = results?.filter(result => result.status === 'failed').length ?? 0
+  const isDestructive = action === 'remove_from_club'
+  const inputClass = 'w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-800 via-blue-900 to-slate-800 rounded-2xl border border-blue-300/30 p-6 w-full max-w-md shadow-2xl">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-gradient-to-r from-blue-500 to-orange-500 rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-white font-bold text-lg">{actionInfo.icon}</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">{actionInfo.label}</h2>
+              <p className="text-blue-200/70 text-sm">
+                {results ? `${failedCount} of ${results.length} failed` : 'Bulk member update'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-white/60 hover:text-white transition-colors p-1"
+            disabled={loading}
+          >
+            <span className="text-xl">✕</span>
+          </button>
+        </div>
+
+        {results ? (
+          /* Per-member Result Report */
+          <ul className="max-h-80 overflow-y-auto space-y-2">
+            {results.map(result => (
+              <li key={result.member.id} className="flex items-start justify-between bg-white/5 border border-white/10 rounded-lg p-2">
+                <span className="text-white text-sm font-medium truncate pr-2">{result.member.name}</span>
+                <span className={`text-xs text-right ${STATUS_STYLES[result.status].className}`}>
+                  {STATUS_STYLES[result.status].icon} {result.message ?? 'Done'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="space-y-4">
+            {/* Action Inputs */}
+            {action === 'award_points' && (
+              <>
+                <div>
+                  <label className="block text-white font-medium mb-2">
+                    Points <span className="text-orange-400">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    value={points}
+                    onChange={(e) => setPoints(e.target.value)}
+                    placeholder="e.g., 5"
+                    className={inputClass}
+                    disabled={loading}
+                  />
+                </div>
+                <div>
+                  <label className="block text-white font-medium mb-2">
+                    Reason <span className="text-orange-400">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g., Attended the author Q&A"
+                    className={inputClass}
+                    disabled={loading}
+                    maxLength={200}
+                  />
+                </div>
+              </>
+            )}
+
+            {action === 'copy_to_club' && (
+              <div>
+                <label className="block text-white font-medium mb-2">
+                  Target Club <span className="text-orange-400">*</span>
+                </label>
+                <select
+                  value={targetClubId}
+                  onChange={(e) => setTargetClubId(e.target.value)}
+                  className={`${inputClass} cursor-pointer`}
+                  disabled={loading || targetClubs.length === 0}
+                >
+                  <option value="" className="bg-slate-800 text-white">
+                    {targetClubs.length === 0 ? 'No other clubs on this server' : 'Choose a club'}
+                  </option>
+                  {targetClubs.map(club => (
+                    <option key={club.id} value={club.id} className="bg-slate-800 text-white">
+                      {club.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Summary Confirmation */}
+            <div className={`${isDestructive ? 'bg-red-500/10 border-red-400/20' : 'bg-blue-500/10 border-blue-400/20'} border rounded-xl p-3`}>
+              <p className={`${isDestructive ? 'text-red-200' : 'text-blue-200'} text-sm font-medium`}>{describeAction()}</p>
+              <p className="text-white/60 text-xs mt-2 line-clamp-3">
+                {members.map(member => member.name).join(', ')}
+              </p>
+            </div>
+
+            {loading && (
+              <p className="text-blue-200/70 text-sm text-center">
+                Updating {progress} of {members.length}...
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Modal Footer */}
+        <div className="flex items-center justify-between mt-6 pt-4 border-t border-white/10">
+          <button
+            onClick={handleClose}
+            className="text-white/60 hover:text-white transition-colors font-medium"
+            disabled={loading}
+          >
+            {results ? 'Close' : 'Cancel'}
+          </button>
+
+          {!results && (
+            <button
+              onClick={handleConfirm}
+              disabled={loading || members.length === 0}
+              className={`${
+                isDestructive
+                  ? 'from-red-500 to-red-600 hover:from-red-600 hover:to-red-700'
+                  : 'from-blue-500 to-orange-500 hover:from-blue-600 hover:to-orange-600'
+              } bg-gradient-to-r disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2`}
+            >
+              {loading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                  <span>Applying...</span>
+                </>
+              ) : (
+                <span>Apply to {members.length}</span>
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,322 @@
+import { useState, useEffect } from 'react'
+import { api, getErrorMessage, sendOrQueue } from '../../api'
+import { announceFollowUp, syncRemindersFollowUp } from '../../discord'
+import { getSessionPoints, SESSION_OUTCOMES, planCloseOut } from '../../sessions'
+import { getClubRules } from '../../clubs'
+import type { SessionPoints } from '../../sessions'
+import type { Club, Member, SessionOutcome } from '../../types'
+
+interface CloseSessionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  selectedClub: Club
+  onSessionClosed: () => void
+  onError: (error: string) => void
+}
+
+type CloseSessionStep = 'mark' | 'review'
+
+const OUTCOME_STYLES: Record<SessionOutcome, string> = {
+  finished: 'bg-green-500/30 text-green-200 border-green-400/40',
+  partial: 'bg-orange-500/30 text-orange-200 border-orange-400/40',
+  not_started: 'bg-red-500/30 text-red-200 border-red-400/40'
+}
+
+export default function CloseSessionModal({
+  isOpen,
+  onClose,
+  selectedClub,
+  onSessionClosed,
+  onError
+}: CloseSessionModalProps) {
+  const [loading, setLoading] = useState(false)
+  const [step, setStep] = useState<CloseSessionStep>('mark')
+  const [outcomes, setOutcomes] = useState<Record<Member['id'], SessionOutcome>>({})
+  const rules = getClubRules(selectedClub)
+  const [points, setPoints] = useState<SessionPoints>(getSessionPoints(rules.points_per_book))
+
+  // Start every wizard from a clean slate, with the points from the club's rules
+  useEffect(() => {
+    if (isOpen) {
+      setStep('mark')
+      setOutcomes({})
+      setPoints(getSessionPoints(rules.points_per_book))
+    }
+  }, [isOpen, rules.points_per_book])
+
+  const session = selectedClub.active_session
+  const results = planCloseOut(selectedClub, outcomes, points, rules.shame_threshold)
+  const memberName = (memberId: Member['id']) =>
+    selectedClub.members.find(member => member.id === memberId)?.name ?? `#${memberId}`
+
+  const markAll = (outcome: SessionOutcome) => {
+    setOutcomes(Object.fromEntries(selectedClub.members.map(member => [member.id, outcome])))
+  }
+
+  const handlePointsChange = (outcome: SessionOutcome, value: string) => {
+    const parsed = parseInt(value)
+    setPoints(prev => ({ ...prev, [outcome]: isNaN(parsed) ? 0 : parsed }))
+  }
+
+  const handleReview = () => {
+    if (Object.values(points).some(value => value < 0)) {
+      onError('Points awarded must be non-negative')
+      return
+    }
+    onError('')
+    setStep('review')
+  }
+
+  const handleSubmit = async () => {
+    if (!session) return
+
+    try {
+      setLoading(true)
+      onError('') // Clear any existing errors
+
+      const shameNames = (change: 'add' | 'remove') =>
+        results.filter(result => result.shame_list === change).map(result => memberName(result.member_id))
+
+      // A closed session has nothing left to remind anyone about
+      const followUps = [syncRemindersFollowUp(selectedClub, null)]
+      if (results.some(result => result.shame_list)) {
+        followUps.unshift(announceFollowUp(selectedClub, { type: 'shame_list_changed', added: shameNames('add'), removed: shameNames('remove') }))
+      }
+
+      // Books read, points, shame list and session history change together or not at all
+      const closed = await sendOrQueue(`Close ${session.book.title} in ${selectedClub.name}`, () => api.closeSession({
+        id: session.id,
+        club_id: selectedClub.id,
+        results
+      }), followUps)
+
+      onClose()
+
+      // Notify parent component of successful close-out; a queued close-out shows up once it syncs
+      if (closed !== null) onSessionClosed()
+
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to close session'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    onError('') // Clear errors when closing
+    onClose()
+  }
+
+  if (!isOpen || !session) return null
+
+  const finishedCount = results.filter(result => result.outcome === 'finished').length
+  const shameAdds = results.filter(result => result.shame_list === 'add').length
+  const shameRemovals = results.filter(result => result.shame_list === 'remove').length
+
+  const inputClass = 'w-full bg-white/10 border border-blue-300/30 rounded-lg px-3 py-2 text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-transparent'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-800 via-blue-900 to-slate-800 rounded-2xl border border-blue-300/30 p-6 w-full max-w-lg shadow-2xl">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-gradient-to-r from-orange-500 to-blue-500 rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-white font-bold text-lg">🏁</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Close Session</h2>
+              <p className="text-blue-200/70 text-sm">
+                {step === 'mark' ? 'Step 1 of 2 · Who finished the book?' : 'Step 2 of 2 · Review changes'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-white/60 hover:text-white transition-colors p-1"
+            disabled={loading}
+          >
+            <span className="text-xl">✕</span>
+          </button>
+        </div>
+
+        {/* Session Context */}
+        <div className="bg-orange-500/10 border border-orange-400/20 rounded-xl p-3 mb-4">
+          <p className="text-orange-200 text-sm font-medium">
+            📖 <span className="text-white">{session.book.title}</span> by {session.book.author}
+          </p>
+          <p className="text-orange-200/60 text-xs mt-1">
+            Due {new Date(session.due_date).toLocaleDateString()} · moves to reading history once closed
+          </p>
+        </div>
+
+        {step === 'mark' ? (
+          <div className="space-y-4">
+            {/* Points Awarded */}
+            <div>
+              <p className="text-white font-medium mb-2">Points Awarded</p>
+              <div className="grid grid-cols-3 gap-2">
+                {SESSION_OUTCOMES.map(({ value, label }) => (
+                  <div key={value}>
+                    <p className="text-white/50 text-xs mb-1">{label}</p>
+                    <input
+                      type="number"
+                      value={points[value]}
+                      onChange={(e) => handlePointsChange(value, e.target.value)}
+                      min="0"
+                      className={inputClass}
+                      disabled={loading}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Member Outcomes */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-white font-medium">Members ({selectedClub.members.length})</p>
+                <div className="flex space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => markAll('finished')}
+                    className="text-green-300 hover:text-green-200 text-xs font-medium transition-colors"
+                    disabled={loading}
+                  >
+                    All finished
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => markAll('not_started')}
+                    className="text-red-300 hover:text-red-200 text-xs font-medium transition-colors"
+                    disabled={loading}
+                  >
+                    None finished
+                  </button>
+                </div>
+              </div>
+
+              {selectedClub.members.length === 0 ? (
+                <p className="text-white/50 text-sm text-center py-4">This club has no members to mark</p>
+              ) : (
+                <ul className="max-h-72 overflow-y-auto space-y-2">
+                  {selectedClub.members.map(member => {
+                    const outcome = outcomes[member.id] ?? 'not_started'
+                    return (
+                      <li key={member.id} className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg p-2">
+                        <span className="text-white text-sm font-medium truncate pr-2">{member.name}</span>
+                        <div className="flex space-x-1 flex-shrink-0">
+                          {SESSION_OUTCOMES.map(({ value, label }) => (
+                            <button
+                              key={value}
+                              type="button"
+                              onClick={() => setOutcomes(prev => ({ ...prev, [member.id]: value }))}
+                              disabled={loading}
+                              className={`px-2 py-1 rounded-lg text-xs font-medium border transition-all duration-200 ${
+                                outcome === value
+                                  ? OUTCOME_STYLES[value]
+                                  : 'text-white/50 hover:text-white border-transparent hover:bg-white/10'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="bg-green-500/10 border border-green-400/20 rounded-xl p-2">
+                <p className="text-green-200 text-lg font-bold">{finishedCount}</p>
+                <p className="text-green-200/70 text-xs">finished</p>
+              </div>
+              <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-2">
+                <p className="text-red-200 text-lg font-bold">+{shameAdds}</p>
+                <p className="text-red-200/70 text-xs">to shame list</p>
+              </div>
+              <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-2">
+                <p className="text-blue-200 text-lg font-bold">−{shameRemovals}</p>
+                <p className="text-blue-200/70 text-xs">off shame list</p>
+              </div>
+            </div>
+
+            {/* Per-member Changes */}
+            <ul className="max-h-72 overflow-y-auto space-y-2">
+              {results.map(result => (
+                <li key={result.member_id} className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg p-2">
+                  <div className="min-w-0 pr-2">
+                    <p className="text-white text-sm font-medium truncate">{memberName(result.member_id)}</p>
+                    <p className="text-blue-200/60 text-xs">
+                      {SESSION_OUTCOMES.find(({ value }) => value === result.outcome)?.label}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0 text-xs">
+                    {result.points > 0 && (
+                      <span className="bg-blue-500/20 text-blue-200 px-2 py-1 rounded-full border border-blue-400/30">
+                        +{result.points} pts
+                      </span>
+                    )}
+                    {result.books_read_increment > 0 && (
+                      <span className="bg-green-500/20 text-green-200 px-2 py-1 rounded-full border border-green-400/30">
+                        +{result.books_read_increment} book
+                      </span>
+                    )}
+                    {result.shame_list === 'add' && (
+                      <span className="bg-red-500/20 text-red-200 px-2 py-1 rounded-full border border-red-400/30">😰 Shame</span>
+                    )}
+                    {result.shame_list === 'remove' && (
+                      <span className="bg-green-500/20 text-green-200 px-2 py-1 rounded-full border border-green-400/30">✨ Cleared</span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Modal Footer */}
+        <div className="flex items-center justify-between mt-6 pt-4 border-t border-white/10">
+          <button
+            onClick={step === 'mark' ? handleClose : () => setStep('mark')}
+            className="text-white/60 hover:text-white transition-colors font-medium"
+            disabled={loading}
+          >
+            {step === 'mark' ? 'Cancel' : '← Back'}
+          </button>
+
+          {step === 'mark' ? (
+            <button
+              onClick={handleReview}
+              disabled={loading}
+              className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100"
+            >
+              Review
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={loading}
+              className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
+            >
+              {loading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                  <span>Closing...</span>
+                </>
+              ) : (
+                <span>Close Session</span>
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
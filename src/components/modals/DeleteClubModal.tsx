@@ -1,14 +1,14 @@
 import { useState } from 'react'
-import { supabase } from '../../supabase'
-import type { Club } from '../../types'
+import { api, getErrorMessage } from '../../api'
+import { useAuth } from '../../auth'
+import type { TrashItem } from '../../types'
 
 interface DeleteClubModalProps {
   isOpen: boolean
   onClose: () => void
   clubToDelete: { id: string; name: string } | null
   selectedServer: string
-  selectedClub: Club | null
-  onClubDeleted: () => void
+  onClubDeleted: (trashed: TrashItem) => void
   onError: (error: string) => void
 }
 
@@ -17,40 +17,32 @@ export default function DeleteClubModal({
   onClose,
   clubToDelete,
   selectedServer,
-  selectedClub,
   onClubDeleted,
   onError
 }: DeleteClubModalProps) {
   const [loading, setLoading] = useState(false)
+  const { can } = useAuth()
 
   const handleDelete = async () => {
     if (!clubToDelete) return
 
+    if (!can('manage_clubs', { serverId: selectedServer, clubId: clubToDelete.id })) {
+      onError('You do not have permission to delete this club')
+      return
+    }
+
     try {
       setLoading(true)
       onError('')
 
-      console.log('Deleting club:', clubToDelete)
-
-      const { data, error } = await supabase.functions.invoke(`club?id=${encodeURIComponent(clubToDelete.id)}&server_id=${encodeURIComponent(selectedServer)}`, {
-        method: 'DELETE'
-      })
-
-      if (error) throw error
-
-      console.log('Club deleted successfully:', data)
+      const trashed = await api.deleteClub(clubToDelete.id, selectedServer)
 
       // Close modal and notify parent
       onClose()
-      onClubDeleted()
+      onClubDeleted(trashed)
 
     } catch (err: unknown) {
-      console.error('Error deleting club:', err)
-      onError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : 'Failed to delete club'
-      )
+      onError(getErrorMessage(err, 'Failed to delete club'))
     } finally {
       setLoading(false)
     }
@@ -68,7 +60,7 @@ export default function DeleteClubModal({
           </div>
           <div>
             <h2 className="text-xl font-bold text-white">Delete Club</h2>
-            <p className="text-red-200/70 text-sm">This action cannot be undone</p>
+            <p className="text-red-200/70 text-sm">It can be restored from the trash</p>
           </div>
         </div>
 
@@ -78,13 +70,14 @@ export default function DeleteClubModal({
             Are you sure you want to delete <span className="font-bold text-orange-300">"{clubToDelete.name}"</span>?
           </p>
           <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-4">
-            <p className="text-red-200 text-sm font-medium mb-2">⚠️ This will permanently delete:</p>
+            <p className="text-red-200 text-sm font-medium mb-2">⚠️ This will move to the trash:</p>
             <ul className="text-red-200/80 text-sm space-y-1 ml-4">
               <li>• All reading sessions and books</li>
               <li>• All discussions and events</li>
               <li>• All member associations</li>
               <li>• The entire club history</li>
             </ul>
+            <p className="text-red-200/60 text-xs mt-3">Everything is purged for good once the retention window ends.</p>
           </div>
         </div>
 
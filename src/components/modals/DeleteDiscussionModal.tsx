@@ -1,13 +1,17 @@
 import { useState } from 'react'
-import { supabase } from '../../supabase'
-import type { Club } from '../../types'
+import { api, ConflictError, getErrorMessage, sendOrQueue } from '../../api'
+import { announceFollowUp, syncRemindersFollowUp } from '../../discord'
+import { useAuth } from '../../auth'
+import { mutateClub, updateCachedClub, removeDiscussion, upsertDiscussion } from '../../cache'
+import type { Club, Discussion, TrashItem } from '../../types'
+import DiscussionConflictModal from './DiscussionConflictModal'
 
 interface DeleteDiscussionModalProps {
   isOpen: boolean
   onClose: () => void
-  discussionToDelete: any
+  discussionToDelete: Discussion | null
   selectedClub: Club
-  onDiscussionDeleted: () => void
+  onDiscussionDeleted: (trashed?: TrashItem) => void // Nothing was trashed when someone else already deleted it
   onError: (error: string) => void
 }
 
@@ -20,49 +24,81 @@ export default function DeleteDiscussionModal({
   onError
 }: DeleteDiscussionModalProps) {
   const [loading, setLoading] = useState(false)
+  const [conflict, setConflict] = useState<ConflictError<Discussion> | null>(null)
+  const { can } = useAuth()
 
-  const handleDelete = async () => {
-    if (!discussionToDelete || !selectedClub?.active_session) return
+  const finishDelete = (trashed?: TrashItem) => {
+    setConflict(null)
+
+    // Close modal and notify parent
+    onClose()
+    onDiscussionDeleted(trashed)
+  }
+
+  // Deletes only if the server copy is still the one we showed, otherwise raises a conflict
+  const deleteDiscussion = async (expectedUpdatedAt?: string) => {
+    if (!discussionToDelete) return
 
     try {
       setLoading(true)
       onError('')
 
-      console.log('Deleting discussion:', discussionToDelete)
-
-      const requestBody = {
-        id: selectedClub.active_session.id,
-        discussions: selectedClub.active_session.discussions,
-        discussion_ids_to_delete: [discussionToDelete.id]
+      const followUps = [announceFollowUp(selectedClub, { type: 'discussion_deleted', discussion: discussionToDelete })]
+      if (selectedClub.active_session) {
+        followUps.push(syncRemindersFollowUp(selectedClub, {
+          ...selectedClub.active_session,
+          discussions: selectedClub.active_session.discussions.filter(discussion => discussion.id !== discussionToDelete.id)
+        }))
       }
 
-      const { data, error } = await supabase.functions.invoke('session', {
-        method: 'PUT',
-        body: requestBody
+      // Null when queued offline; there is nothing to undo until it syncs
+      const trashed = await mutateClub(selectedClub.id, {
+        apply: club => removeDiscussion(club, discussionToDelete.id),
+        write: () => sendOrQueue(
+          `Delete discussion "${discussionToDelete.title}" in ${selectedClub.name}`,
+          () => api.deleteDiscussion(discussionToDelete.id, expectedUpdatedAt),
+          followUps
+        )
       })
 
-      if (error) throw error
-
-      console.log('Request body:', requestBody)
-      console.log('Discussion deleted successfully:', data)
-      console.log('Fetching fresh club details...')
-
-      // Close modal and notify parent
-      onClose()
-      onDiscussionDeleted()
+      finishDelete(trashed ?? undefined)
 
     } catch (err: unknown) {
-      console.error('Error deleting discussion:', err)
-      onError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : 'Failed to delete discussion'
-      )
+      if (err instanceof ConflictError) {
+        if (!err.current) {
+          // Someone else already deleted it
+          updateCachedClub(selectedClub.id, club => removeDiscussion(club, discussionToDelete.id))
+          finishDelete()
+          return
+        }
+        setConflict(err as ConflictError<Discussion>)
+        return
+      }
+      setConflict(null)
+      onError(getErrorMessage(err, 'Failed to delete discussion'))
     } finally {
       setLoading(false)
     }
   }
 
+  const handleKeepServer = () => {
+    // Nothing deleted, but show the newer copy
+    const current = conflict?.current
+    if (current) updateCachedClub(selectedClub.id, club => upsertDiscussion(club, current))
+    finishDelete()
+  }
+
+  const handleDelete = async () => {
+    if (!discussionToDelete || !selectedClub?.active_session) return
+
+    if (!can('manage_discussions', { serverId: selectedClub.server_id, clubId: selectedClub.id })) {
+      onError('You do not have permission to delete discussions in this club')
+      return
+    }
+
+    await deleteDiscussion(discussionToDelete.updated_at)
+  }
+
   if (!isOpen || !discussionToDelete) return null
 
   return (
@@ -75,7 +111,7 @@ export default function DeleteDiscussionModal({
           </div>
           <div>
             <h2 className="text-xl font-bold text-white">Delete Discussion</h2>
-            <p className="text-red-200/70 text-sm">This action cannot be undone</p>
+            <p className="text-red-200/70 text-sm">It can be restored from the trash</p>
           </div>
         </div>
 
@@ -85,11 +121,10 @@ export default function DeleteDiscussionModal({
             Are you sure you want to delete <span className="font-bold text-orange-300">"{discussionToDelete.title}"</span>?
           </p>
           <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-4">
-            <p className="text-red-200 text-sm font-medium mb-2">⚠️ This will permanently delete:</p>
+            <p className="text-red-200 text-sm font-medium mb-2">⚠️ This will move to the trash:</p>
             <ul className="text-red-200/80 text-sm space-y-1 ml-4">
               <li>• The discussion event</li>
               <li>• All associated details</li>
-              <li>• Cannot be recovered</li>
             </ul>
           </div>
         </div>
@@ -120,6 +155,17 @@ export default function DeleteDiscussionModal({
           </button>
         </div>
       </div>
+
+      {/* Concurrent edit conflict */}
+      <DiscussionConflictModal
+        isOpen={!!conflict}
+        action="delete"
+        localDiscussion={discussionToDelete}
+        serverDiscussion={conflict?.current ?? null}
+        loading={loading}
+        onApplyMine={() => deleteDiscussion(conflict?.current?.updated_at)}
+        onKeepServer={handleKeepServer}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,11 +1,15 @@
 import { useState } from 'react'
-import { supabase } from '../../supabase'
+import { api, getErrorMessage, sendOrQueue } from '../../api'
+import { useAuth } from '../../auth'
+import { mutateClub, removeMember } from '../../cache'
+import type { Club, Member, TrashItem } from '../../types'
 
 interface DeleteMemberModalProps {
   isOpen: boolean
   onClose: () => void
-  memberToDelete: any
-  onMemberDeleted: () => void
+  memberToDelete: Member | null
+  selectedClub: Club
+  onMemberDeleted: (trashed?: TrashItem) => void // No trash item while the delete is queued offline
   onError: (error: string) => void
 }
 
@@ -13,39 +17,48 @@ export default function DeleteMemberModal({
   isOpen,
   onClose,
   memberToDelete,
+  selectedClub,
   onMemberDeleted,
   onError
 }: DeleteMemberModalProps) {
   const [loading, setLoading] = useState(false)
+  const [fromEveryClub, setFromEveryClub] = useState(false)
+  const { can } = useAuth()
+
+  // Deleting the member outright reaches into clubs this admin may not moderate
+  const canDeleteEverywhere = can('manage_clubs', { serverId: selectedClub.server_id })
 
   const handleDelete = async () => {
     if (!memberToDelete) return
 
+    if (!can('manage_members', { serverId: selectedClub.server_id, clubId: selectedClub.id })) {
+      onError('You do not have permission to remove members from this club')
+      return
+    }
+
+    const deleteEverywhere = fromEveryClub && canDeleteEverywhere
+
     try {
       setLoading(true)
       onError('') // Clear any existing errors
 
-      console.log('Deleting member:', memberToDelete)
-
-      const { data, error } = await supabase.functions.invoke(`member?id=${encodeURIComponent(memberToDelete.id)}`, {
-        method: 'DELETE'
+      // Null when queued offline; there is nothing to undo until it syncs
+      const trashed = await mutateClub(selectedClub.id, {
+        apply: club => removeMember(club, memberToDelete.id),
+        write: () => deleteEverywhere
+          ? sendOrQueue(`Delete ${memberToDelete.name} from every club`, () => api.deleteMember(memberToDelete.id))
+          : sendOrQueue(`Remove ${memberToDelete.name} from ${selectedClub.name}`, () =>
+              api.removeMemberFromClub({ club_id: selectedClub.id, member_id: memberToDelete.id })
+            )
       })
 
-      if (error) throw error
-
-      console.log('Member deleted successfully:', data)
-
       // Close modal and notify parent
+      setFromEveryClub(false)
       onClose()
-      onMemberDeleted()
+      onMemberDeleted(trashed ?? undefined)
 
     } catch (err: unknown) {
-      console.error('Error deleting member:', err)
-      onError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : 'Failed to delete member'
-      )
+      onError(getErrorMessage(err, 'Failed to delete member'))
     } finally {
       setLoading(false)
     }
@@ -63,7 +76,7 @@ export default function DeleteMemberModal({
           </div>
           <div>
             <h2 className="text-xl font-bold text-white">Delete Member</h2>
-            <p className="text-red-200/70 text-sm">This action cannot be undone</p>
+            <p className="text-red-200/70 text-sm">It can be restored from the trash</p>
           </div>
         </div>
 
@@ -73,20 +86,47 @@ export default function DeleteMemberModal({
             Are you sure you want to remove <span className="font-bold text-orange-300">"{memberToDelete.name}"</span> from this club?
           </p>
           <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-4">
-            <p className="text-red-200 text-sm font-medium mb-2">⚠️ This will permanently:</p>
+            <p className="text-red-200 text-sm font-medium mb-2">⚠️ Until restored, this will:</p>
             <ul className="text-red-200/80 text-sm space-y-1 ml-4">
-              <li>• Remove them from this club</li>
-              <li>• Remove any shame list entries</li>
-              <li>• Delete all member associations</li>
-              <li>• Cannot be recovered</li>
+              {fromEveryClub ? (
+                <>
+                  <li>• Remove them from every club on this server</li>
+                  <li>• Hide all their shame list entries</li>
+                  <li>• Hide them from member lists and profiles</li>
+                </>
+              ) : (
+                <>
+                  <li>• Remove them from this club</li>
+                  <li>• Hide their shame list entry in this club</li>
+                  <li>• Keep them, and their points, in their other clubs</li>
+                </>
+              )}
             </ul>
+            <p className="text-red-200/60 text-xs mt-3">Restoring brings all of it back; it is purged for good once the retention window ends.</p>
           </div>
+
+          {/* Server-wide Delete */}
+          {canDeleteEverywhere && (
+            <label className="flex items-start space-x-2 mt-4 text-sm text-white/80 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={fromEveryClub}
+                onChange={(e) => setFromEveryClub(e.target.checked)}
+                disabled={loading}
+                className="mt-0.5 accent-red-500"
+              />
+              <span>Delete them from every club on this server instead</span>
+            </label>
+          )}
         </div>
 
         {/* Modal Footer */}
         <div className="flex items-center justify-between">
           <button
-            onClick={onClose}
+            onClick={() => {
+              setFromEveryClub(false)
+              onClose()
+            }}
             className="text-white/60 hover:text-white transition-colors font-medium"
             disabled={loading}
           >
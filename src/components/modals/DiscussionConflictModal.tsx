@@ -0,0 +1,124 @@
+import type { Discussion } from '../../types'
+
+type DiscussionFields = Pick<Discussion, 'title' | 'date' | 'location'>
+
+interface DiscussionConflictModalProps {
+  isOpen: boolean
+  action: 'update' | 'delete'
+  localDiscussion: DiscussionFields
+  serverDiscussion: Discussion | null // null when someone else deleted it
+  loading: boolean
+  onApplyMine: () => void
+  onKeepServer: () => void
+}
+
+const FIELDS: { key: keyof DiscussionFields; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'date', label: 'Date' },
+  { key: 'location', label: 'Location' }
+]
+
+const formatValue = (key: keyof DiscussionFields, value: string | undefined) => {
+  if (!value) return '—'
+  return key === 'date' ? new Date(value).toLocaleDateString() : value
+}
+
+export default function DiscussionConflictModal({
+  isOpen,
+  action,
+  localDiscussion,
+  serverDiscussion,
+  loading,
+  onApplyMine,
+  onKeepServer
+}: DiscussionConflictModalProps) {
+  if (!isOpen) return null
+
+  const wasDeleted = !serverDiscussion
+
+  const description = wasDeleted
+    ? 'Another admin deleted this discussion while you were editing it.'
+    : action === 'delete'
+    ? 'Another admin changed this discussion since you opened it.'
+    : 'Another admin saved changes to this discussion while you were editing it.'
+
+  const applyLabel = wasDeleted ? 'Re-create with Mine' : action === 'delete' ? 'Delete Anyway' : 'Overwrite with Mine'
+  const keepLabel = wasDeleted ? 'Discard My Changes' : action === 'delete' ? 'Keep Discussion' : 'Keep Their Version'
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+      <div className="bg-gradient-to-br from-slate-800 via-orange-900/20 to-slate-800 rounded-2xl border border-orange-300/30 p-6 w-full max-w-lg shadow-2xl">
+        {/* Modal Header */}
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="h-12 w-12 bg-gradient-to-r from-orange-500 to-red-500 rounded-xl flex items-center justify-center shadow-lg">
+            <span className="text-white font-bold text-xl">⚡</span>
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-white">Edit Conflict</h2>
+            <p className="text-orange-200/70 text-sm">{description}</p>
+          </div>
+        </div>
+
+        {/* Side-by-side comparison */}
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-3">
+            <p className="text-blue-200 text-sm font-bold mb-2">
+              {action === 'delete' ? 'What you saw' : 'Your version'}
+            </p>
+            {FIELDS.map(({ key, label }) => (
+              <div key={key} className="mb-2 last:mb-0">
+                <p className="text-white/50 text-xs">{label}</p>
+                <p className="text-white text-sm font-medium break-words">{formatValue(key, localDiscussion[key])}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-orange-500/10 border border-orange-400/20 rounded-xl p-3">
+            <p className="text-orange-200 text-sm font-bold mb-2">Current on server</p>
+            {serverDiscussion ? (
+              FIELDS.map(({ key, label }) => {
+                const changed = (serverDiscussion[key] || '') !== (localDiscussion[key] || '')
+                return (
+                  <div key={key} className="mb-2 last:mb-0">
+                    <p className="text-white/50 text-xs">{label}</p>
+                    <p className={`text-sm font-medium break-words ${changed ? 'text-orange-300' : 'text-white'}`}>
+                      {formatValue(key, serverDiscussion[key])}
+                    </p>
+                  </div>
+                )
+              })
+            ) : (
+              <p className="text-red-300 text-sm font-medium">🗑️ Deleted</p>
+            )}
+          </div>
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onKeepServer}
+            className="text-white/60 hover:text-white transition-colors font-medium"
+            disabled={loading}
+          >
+            {keepLabel}
+          </button>
+
+          <button
+            onClick={onApplyMine}
+            disabled={loading}
+            className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
+          >
+            {loading ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                <span>Saving...</span>
+              </>
+            ) : (
+              <span>{applyLabel}</span>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
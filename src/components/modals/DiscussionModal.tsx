@@ -1,21 +1,18 @@
-import { useState, useEffect } from 'react'
-import { supabase } from '../../supabase'
-import type { Club } from '../../types'
-
-interface Discussion {
-  id: string
-  title: string
-  date: string
-  location?: string
-}
+import { useState, useEffect, useRef } from 'react'
+import { api, ConflictError, getErrorMessage, sendOrQueue } from '../../api'
+import type { FollowUp } from '../../api'
+import { announceFollowUp, syncRemindersFollowUp } from '../../discord'
+import { getClubRules, getNextDiscussionDate } from '../../clubs'
+import { mutateClub, updateCachedClub, pendingDiscussionId, removeDiscussion, upsertDiscussion } from '../../cache'
+import type { Club, Discussion } from '../../types'
+import DiscussionConflictModal from './DiscussionConflictModal'
 
 interface DiscussionModalProps {
   isOpen: boolean
   onClose: () => void
   selectedClub: Club
-  onDiscussionSaved: () => void
   onError: (error: string) => void
-  editingDiscussion?: Discussion // If provided, we're editing instead of adding
+  editingDiscussion?: Discussion | null // If provided, we're editing instead of adding
 }
 
 interface DiscussionFormData {
@@ -28,7 +25,6 @@ export default function DiscussionModal({
   isOpen,
   onClose,
   selectedClub,
-  onDiscussionSaved,
   onError,
   editingDiscussion
 }: DiscussionModalProps) {
@@ -39,8 +35,16 @@ export default function DiscussionModal({
     location: ''
   })
 
+  const [conflict, setConflict] = useState<ConflictError<Discussion> | null>(null)
+
   const isEditing = !!editingDiscussion
 
+  // Read when the modal opens, so a club refresh while it is open leaves the form alone
+  const clubRef = useRef(selectedClub)
+  useEffect(() => {
+    clubRef.current = selectedClub
+  }, [selectedClub])
+
   // Pre-populate form when editing
   useEffect(() => {
     if (isOpen) {
@@ -52,11 +56,12 @@ export default function DiscussionModal({
           location: editingDiscussion.location || ''
         })
       } else {
-        // Add mode - reset to empty
+        // Add mode - start from the club's cadence and usual meeting place
+        const rules = getClubRules(clubRef.current)
         setFormData({
           title: '',
-          date: '',
-          location: ''
+          date: getNextDiscussionDate(rules, clubRef.current.active_session),
+          location: rules.discussion_location
         })
       }
     }
@@ -70,6 +75,72 @@ export default function DiscussionModal({
     return selectedDate >= today
   }
 
+  const localDiscussion = {
+    title: formData.title.trim(),
+    date: formData.date,
+    location: formData.location.trim() || undefined
+  }
+
+  const createDiscussion = async () => {
+    const session = selectedClub.active_session
+    if (!session) return
+
+    const followUps = [
+      announceFollowUp(selectedClub, { type: 'discussion_added', discussion: localDiscussion }),
+      syncRemindersFollowUp(selectedClub, { ...session, discussions: [...session.discussions, localDiscussion] })
+    ]
+
+    const pendingId = pendingDiscussionId()
+    await mutateClub(selectedClub.id, {
+      apply: club => upsertDiscussion(club, { id: pendingId, ...localDiscussion }),
+      write: () => sendOrQueue(`Add discussion "${localDiscussion.title}" in ${selectedClub.name}`, () => api.createDiscussion({
+        session_id: session.id,
+        ...localDiscussion
+      }), followUps),
+      reconcile: (club, discussion) => upsertDiscussion(club, discussion, pendingId)
+    })
+  }
+
+  const saveDiscussion = async (expectedUpdatedAt?: string) => {
+    if (isEditing && editingDiscussion) {
+      // Renames alone stay quiet; a new date or place is what members need to hear about
+      const followUps: FollowUp[] = []
+      if (localDiscussion.date !== editingDiscussion.date || (localDiscussion.location ?? '') !== (editingDiscussion.location ?? '')) {
+        followUps.push(announceFollowUp(selectedClub, { type: 'discussion_moved', before: editingDiscussion, after: localDiscussion }))
+      }
+      if (selectedClub.active_session) {
+        followUps.push(syncRemindersFollowUp(selectedClub, {
+          ...selectedClub.active_session,
+          discussions: selectedClub.active_session.discussions.map(discussion =>
+            discussion.id === editingDiscussion.id ? localDiscussion : discussion
+          )
+        }))
+      }
+
+      // Edit mode - update only this discussion
+      await mutateClub(selectedClub.id, {
+        apply: club => upsertDiscussion(club, { ...editingDiscussion, ...localDiscussion }),
+        write: () => sendOrQueue(`Edit discussion "${localDiscussion.title}" in ${selectedClub.name}`, () => api.updateDiscussion({
+          id: editingDiscussion.id,
+          ...localDiscussion,
+          location: localDiscussion.location ?? null,
+          expected_updated_at: expectedUpdatedAt
+        }), followUps),
+        reconcile: (club, discussion) => upsertDiscussion(club, discussion)
+      })
+    } else {
+      // Add mode - create new discussion
+      await createDiscussion()
+    }
+  }
+
+  const finishSave = () => {
+    // Reset form and close modal
+    setFormData({ title: '', date: '', location: '' })
+    setConflict(null)
+    onClose()
+  }
+
   const handleSubmit = async () => {
     if (!formData.title.trim()) {
       onError('Discussion title is required')
@@ -95,69 +166,61 @@ export default function DiscussionModal({
       setLoading(true)
       onError('') // Clear any existing errors
 
-      const existingDiscussions = selectedClub.active_session.discussions || []
-      let updatedDiscussions
-
-      if (isEditing && editingDiscussion) {
-        // Edit mode - update existing discussion
-        updatedDiscussions = existingDiscussions.map(discussion => 
-          discussion.id === editingDiscussion.id 
-            ? {
-                id: discussion.id,
-                title: formData.title.trim(),
-                date: formData.date,
-                location: formData.location.trim() || null
-              }
-            : discussion
-        )
-      } else {
-        // Add mode - create new discussion
-        const newDiscussion = {
-          id: crypto.randomUUID(),
-          title: formData.title.trim(),
-          date: formData.date,
-          location: formData.location.trim() || undefined
-        }
-        updatedDiscussions = [...existingDiscussions, newDiscussion]
-      }
+      // Send the updated_at we started from so concurrent edits are detected instead of overwritten
+      await saveDiscussion(editingDiscussion?.updated_at)
+      finishSave()
 
-      const requestBody = {
-        id: selectedClub.active_session.id,
-        discussions: updatedDiscussions
+    } catch (err: unknown) {
+      if (err instanceof ConflictError) {
+        setConflict(err as ConflictError<Discussion>)
+        return
       }
+      onError(getErrorMessage(err, `Failed to ${isEditing ? 'update' : 'add'} discussion`))
+    } finally {
+      setLoading(false)
+    }
+  }
 
-      console.log(`${isEditing ? 'Updating' : 'Adding'} discussion:`, requestBody)
-
-      const { data, error } = await supabase.functions.invoke('session', {
-        method: 'PUT',
-        body: requestBody
-      })
-
-      if (error) throw error
-
-      console.log(`Discussion ${isEditing ? 'updated' : 'added'} successfully:`, data)
-
-      // Reset form and close modal
-      setFormData({ title: '', date: '', location: '' })
-      onClose()
-      
-      // Notify parent component of successful save
-      onDiscussionSaved()
+  // Conflict resolution: retry against the server's copy, or re-create it if it was deleted
+  const handleApplyMine = async () => {
+    if (!conflict) return
 
+    try {
+      setLoading(true)
+      if (conflict.current) {
+        await saveDiscussion(conflict.current.updated_at)
+      } else {
+        // The deleted copy is replaced by the re-created one
+        if (editingDiscussion) updateCachedClub(selectedClub.id, club => removeDiscussion(club, editingDiscussion.id))
+        await createDiscussion()
+      }
+      finishSave()
     } catch (err: unknown) {
-      console.error(`Error ${isEditing ? 'updating' : 'adding'} discussion:`, err)
-      onError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : `Failed to ${isEditing ? 'update' : 'add'} discussion`
-      )
+      if (err instanceof ConflictError) {
+        setConflict(err as ConflictError<Discussion>) // Changed again in the meantime
+        return
+      }
+      setConflict(null)
+      onError(getErrorMessage(err, `Failed to ${isEditing ? 'update' : 'add'} discussion`))
     } finally {
       setLoading(false)
     }
   }
 
+  // Show the server's copy, or drop the discussion if it was deleted there
+  const handleKeepServer = () => {
+    const current = conflict?.current
+    if (editingDiscussion) {
+      updateCachedClub(selectedClub.id, club =>
+        current ? upsertDiscussion(club, current) : removeDiscussion(club, editingDiscussion.id)
+      )
+    }
+    handleClose()
+  }
+
   const handleClose = () => {
     setFormData({ title: '', date: '', location: '' })
+    setConflict(null)
     onError('') // Clear errors when closing
     onClose()
   }
@@ -286,6 +349,17 @@ export default function DiscussionModal({
           </button>
         </div>
       </div>
+
+      {/* Concurrent edit conflict */}
+      <DiscussionConflictModal
+        isOpen={!!conflict}
+        action="update"
+        localDiscussion={localDiscussion}
+        serverDiscussion={conflict?.current ?? null}
+        loading={loading}
+        onApplyMine={handleApplyMine}
+        onKeepServer={handleKeepServer}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,12 +1,16 @@
 import { useState, useEffect } from 'react'
-import { supabase } from '../../supabase'
+import { api, getErrorMessage, sendOrQueue } from '../../api'
+import type { FollowUp } from '../../api'
+import { announceFollowUp, syncRemindersFollowUp } from '../../discord'
+import { mutateClub, updateActiveSession } from '../../cache'
 import type { Club } from '../../types'
+import type { BookSearchResult } from '../../books'
+import BookLookupPanel from '../BookLookupPanel'
 
 interface EditBookModalProps {
   isOpen: boolean
   onClose: () => void
   selectedClub: Club
-  onBookUpdated: () => void
   onError: (error: string) => void
 }
 
@@ -15,6 +19,9 @@ interface EditBookFormData {
   author: string
   edition: string
   year: string
+  isbn: string
+  page_count: string
+  cover_url: string
   due_date: string
 }
 
@@ -22,7 +29,6 @@ export default function EditBookModal({
   isOpen,
   onClose,
   selectedClub,
-  onBookUpdated,
   onError
 }: EditBookModalProps) {
   const [loading, setLoading] = useState(false)
@@ -31,6 +37,9 @@ export default function EditBookModal({
     author: '',
     edition: '',
     year: '',
+    isbn: '',
+    page_count: '',
+    cover_url: '',
     due_date: ''
   })
 
@@ -45,11 +54,29 @@ export default function EditBookModal({
         author: book.author || '',
         edition: book.edition || '',
         year: book.year ? String(book.year) : '',
+        isbn: book.isbn || '',
+        page_count: book.page_count ? String(book.page_count) : '',
+        cover_url: book.cover_url || '',
         due_date: session.due_date ? session.due_date.split('T')[0] : '' // Convert to YYYY-MM-DD format
       })
     }
   }, [isOpen, selectedClub])
 
+  // Fill the book fields from a lookup result, keeping the due date
+  const handleBookSelected = (book: BookSearchResult) => {
+    setFormData(prev => ({
+      ...prev,
+      title: book.title,
+      author: book.author,
+      // Details the result doesn't have keep whatever was already entered
+      edition: book.edition || prev.edition,
+      year: book.year ? String(book.year) : prev.year,
+      isbn: book.isbn || prev.isbn,
+      page_count: book.page_count ? String(book.page_count) : prev.page_count,
+      cover_url: book.cover_url || prev.cover_url
+    }))
+  }
+
   const handleSubmit = async () => {
     if (!formData.title.trim() || !formData.author.trim()) {
       onError('Title and Author are required')
@@ -65,42 +92,41 @@ export default function EditBookModal({
       setLoading(true)
       onError('') // Clear any existing errors
 
-      console.log('Updating book:', formData)
-
-      // We'll update the session's book and due date using your existing session endpoint
-      const requestBody = {
-        id: selectedClub.active_session.id,
-        book: {
-          title: formData.title.trim(),
-          author: formData.author.trim(),
-          edition: formData.edition.trim() || undefined,
-          year: formData.year.trim() ? parseInt(formData.year.trim()) : undefined
-        },
-        due_date: formData.due_date || undefined
+      const session = selectedClub.active_session
+      const book = {
+        title: formData.title.trim(),
+        author: formData.author.trim(),
+        edition: formData.edition.trim() || undefined,
+        year: formData.year.trim() ? parseInt(formData.year.trim()) : undefined,
+        isbn: formData.isbn.trim() || undefined,
+        page_count: formData.page_count.trim() ? parseInt(formData.page_count.trim()) : undefined,
+        cover_url: formData.cover_url || undefined
       }
+      const dueDate = formData.due_date || session.due_date
 
-      console.log('Update request:', requestBody)
+      // Only a different book is worth a channel message; metadata fixes are not
+      const followUps: FollowUp[] = []
+      if (book.title !== session.book.title || book.author !== session.book.author) {
+        followUps.push(announceFollowUp(selectedClub, { type: 'book_changed', before: session.book, after: book }))
+      }
+      if (book.title !== session.book.title || dueDate !== session.due_date) {
+        followUps.push(syncRemindersFollowUp(selectedClub, { ...session, book, due_date: dueDate }))
+      }
 
-      const { data, error } = await supabase.functions.invoke('session', {
-        method: 'PUT',
-        body: requestBody
+      // Shown on the club right away; rolled back if the session endpoint rejects it
+      await mutateClub(selectedClub.id, {
+        apply: club => updateActiveSession(club, { book, due_date: dueDate }),
+        write: () => sendOrQueue(`Edit book in ${selectedClub.name}`, () => api.updateSession({
+          id: session.id,
+          book,
+          due_date: formData.due_date || undefined
+        }), followUps)
       })
 
-      if (error) throw error
-
-      console.log('Book updated successfully:', data)
-
-      // Close modal and notify parent
       onClose()
-      onBookUpdated()
 
     } catch (err: unknown) {
-      console.error('Error updating book:', err)
-      onError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : 'Failed to update book'
-      )
+      onError(getErrorMessage(err, 'Failed to update book'))
     } finally {
       setLoading(false)
     }
@@ -138,6 +164,9 @@ export default function EditBookModal({
 
         {/* Modal Form */}
         <div className="space-y-4">
+          {/* Book Metadata Lookup */}
+          <BookLookupPanel onSelect={handleBookSelected} disabled={loading} />
+
           {/* Book Title Field */}
           <div>
             <label className="block text-white font-medium mb-2">
@@ -203,6 +232,54 @@ export default function EditBookModal({
             />
           </div>
 
+          {/* ISBN & Page Count Fields */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-white font-medium mb-2">
+                ISBN <span className="text-white/50">(optional)</span>
+              </label>
+              <input
+                type="text"
+                value={formData.isbn}
+                onChange={(e) => setFormData(prev => ({ ...prev, isbn: e.target.value }))}
+                placeholder="e.g., 9780618574940"
+                className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+                disabled={loading}
+                maxLength={17}
+              />
+            </div>
+            <div>
+              <label className="block text-white font-medium mb-2">
+                Pages <span className="text-white/50">(optional)</span>
+              </label>
+              <input
+                type="number"
+                value={formData.page_count}
+                onChange={(e) => setFormData(prev => ({ ...prev, page_count: e.target.value }))}
+                placeholder="e.g., 432"
+                min="1"
+                className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          {/* Cover Preview */}
+          {formData.cover_url && (
+            <div className="flex items-center space-x-3 bg-white/5 border border-white/10 rounded-xl p-3">
+              <img src={formData.cover_url} alt="Book cover" className="w-10 h-14 object-cover rounded shadow" />
+              <p className="flex-1 text-blue-200/70 text-sm">Book cover</p>
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, cover_url: '' }))}
+                className="text-white/60 hover:text-white text-sm transition-colors"
+                disabled={loading}
+              >
+                Remove
+              </button>
+            </div>
+          )}
+
           {/* Due Date Field */}
           <div>
             <label className="block text-white font-medium mb-2">
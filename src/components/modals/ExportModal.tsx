@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react'
+import { getErrorMessage } from '../../api'
+import { loadServerClubs } from '../../cache'
+import { buildExport, downloadFile, toMembersCsv, toSessionsCsv } from '../../transfer'
+import type { ExportFormat } from '../../transfer'
+import type { Club, Server } from '../../types'
+
+interface ExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  server: Server
+  selectedClub: Club | null
+  onError: (error: string) => void
+}
+
+type ExportScope = 'club' | 'server'
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'json', label: 'JSON', description: 'Everything: members, shame list, active and past sessions. Re-importable.' },
+  { value: 'members-csv', label: 'Members CSV', description: 'One row per member per club. Re-importable.' },
+  { value: 'sessions-csv', label: 'Sessions CSV', description: 'One row per active or past session, for spreadsheets.' }
+]
+
+// Keep file names filesystem-friendly
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export'
+
+export default function ExportModal({
+  isOpen,
+  onClose,
+  server,
+  selectedClub,
+  onError
+}: ExportModalProps) {
+  const [loading, setLoading] = useState(false)
+  const [scope, setScope] = useState<ExportScope>('server')
+  const [format, setFormat] = useState<ExportFormat>('json')
+
+  // Default to the open club, if any, each time the modal opens
+  const hasClub = !!selectedClub
+  useEffect(() => {
+    if (isOpen) setScope(hasClub ? 'club' : 'server')
+  }, [isOpen, hasClub])
+
+  const exportScope: ExportScope = selectedClub ? scope : 'server'
+
+  const handleExport = async () => {
+    try {
+      setLoading(true)
+      onError('') // Clear any existing errors
+
+      const clubs = exportScope === 'club' && selectedClub ? [selectedClub] : await loadServerClubs(server)
+      const baseName = `${slugify(exportScope === 'club' && selectedClub ? selectedClub.name : server.name)}-${new Date().toISOString().split('T')[0]}`
+
+      if (format === 'json') {
+        downloadFile(`${baseName}.json`, JSON.stringify(buildExport(server, clubs), null, 2), 'application/json')
+      } else if (format === 'members-csv') {
+        downloadFile(`${baseName}-members.csv`, toMembersCsv(clubs), 'text/csv')
+      } else {
+        downloadFile(`${baseName}-sessions.csv`, toSessionsCsv(clubs), 'text/csv')
+      }
+
+      onClose()
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to export data'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    onError('') // Clear errors when closing
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  const optionClass = (active: boolean) =>
+    `w-full text-left rounded-xl p-3 border transition-all duration-200 ${
+      active ? 'bg-orange-500/20 border-orange-400/40' : 'bg-white/5 border-white/10 hover:bg-white/10'
+    }`
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-800 via-blue-900 to-slate-800 rounded-2xl border border-blue-300/30 p-6 w-full max-w-md shadow-2xl">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-gradient-to-r from-blue-500 to-orange-500 rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-white font-bold text-lg">📤</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Export Data</h2>
+              <p className="text-blue-200/70 text-sm">Download clubs, members and sessions</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-white/60 hover:text-white transition-colors p-1"
+            disabled={loading}
+          >
+            <span className="text-xl">✕</span>
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {/* Scope */}
+          <div>
+            <label className="block text-white font-medium mb-2">What to export</label>
+            <div className="grid grid-cols-2 gap-2">
+              {selectedClub && (
+                <button onClick={() => setScope('club')} className={optionClass(exportScope === 'club')} disabled={loading}>
+                  <p className="text-white text-sm font-medium truncate">📚 {selectedClub.name}</p>
+                  <p className="text-blue-200/60 text-xs">This club only</p>
+                </button>
+              )}
+              <button onClick={() => setScope('server')} className={optionClass(exportScope === 'server')} disabled={loading}>
+                <p className="text-white text-sm font-medium truncate">🖥️ {server.name}</p>
+                <p className="text-blue-200/60 text-xs">All {server.clubs.length} clubs</p>
+              </button>
+            </div>
+          </div>
+
+          {/* Format */}
+          <div>
+            <label className="block text-white font-medium mb-2">Format</label>
+            <div className="space-y-2">
+              {FORMATS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setFormat(option.value)}
+                  className={optionClass(format === option.value)}
+                  disabled={loading}
+                >
+                  <p className="text-white text-sm font-medium">{option.label}</p>
+                  <p className="text-blue-200/60 text-xs">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex items-center justify-between mt-6 pt-4 border-t border-white/10">
+          <button
+            onClick={handleClose}
+            className="text-white/60 hover:text-white transition-colors font-medium"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+
+          <button
+            onClick={handleExport}
+            disabled={loading}
+            className="bg-gradient-to-r from-blue-500 to-orange-500 hover:from-blue-600 hover:to-orange-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
+          >
+            {loading ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                <span>Exporting...</span>
+              </>
+            ) : (
+              <span>Download</span>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
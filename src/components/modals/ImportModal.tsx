@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react'
+import { api, getErrorMessage } from '../../api'
+import { useAuth } from '../../auth'
+import { applyImport, parseImportFile, planImport, validateImport } from '../../transfer'
+import type { ImportAction, ImportChange, ImportChangeResult, ImportIssue } from '../../transfer'
+import type { Server } from '../../types'
+
+interface ImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  server: Server
+  onImported: () => void
+  onError: (error: string) => void
+}
+
+type ImportStep = 'choose' | 'preview' | 'report'
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-green-500/20 text-green-200 border-green-400/30',
+  update: 'bg-blue-500/20 text-blue-200 border-blue-400/30',
+  join: 'bg-orange-500/20 text-orange-200 border-orange-400/30',
+  skip: 'bg-white/10 text-white/60 border-white/20'
+}
+
+const STATUS_ICONS: Record<ImportChangeResult['status'], string> = {
+  done: '✅',
+  skipped: '⏭️',
+  failed: '❌'
+}
+
+export default function ImportModal({
+  isOpen,
+  onClose,
+  server,
+  onImported,
+  onError
+}: ImportModalProps) {
+  const { can } = useAuth()
+  const [loading, setLoading] = useState(false)
+  const [step, setStep] = useState<ImportStep>('choose')
+  const [fileName, setFileName] = useState('')
+  const [issues, setIssues] = useState<ImportIssue[]>([])
+  const [changes, setChanges] = useState<ImportChange[]>([])
+  const [progress, setProgress] = useState(0)
+  const [results, setResults] = useState<ImportChangeResult[]>([])
+
+  // Every import starts from the file picker
+  useEffect(() => {
+    if (isOpen) {
+      setStep('choose')
+      setFileName('')
+      setIssues([])
+      setChanges([])
+      setProgress(0)
+      setResults([])
+    }
+  }, [isOpen])
+
+  const handleFile = async (file: File) => {
+    try {
+      setLoading(true)
+      onError('') // Clear any existing errors
+      setFileName(file.name)
+      setIssues([])
+
+      const clubs = parseImportFile(file.name, await file.text())
+      const validationIssues = validateImport(clubs)
+      if (validationIssues.length > 0) {
+        setIssues(validationIssues)
+        return
+      }
+
+      // Diff against fresh copies of every club so the preview reflects the server right now
+      const currentClubs = await api.getServerClubs(server)
+      setChanges(await planImport(server, clubs, currentClubs))
+      setStep('preview')
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to read import file'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!can('manage_clubs', { serverId: server.id }) || !can('manage_members', { serverId: server.id })) {
+      onError('You do not have permission to import into this server')
+      return
+    }
+
+    try {
+      setLoading(true)
+      onError('')
+      setResults(await applyImport(changes, setProgress))
+      setStep('report')
+
+      // Refresh whatever was applied, even if some changes failed
+      onImported()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    onError('') // Clear errors when closing
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  const pendingCount = changes.filter(change => change.apply).length
+  const failedCount = results.filter(result => result.status === 'failed').length
+
+  const subtitle = {
+    choose: 'Step 1 of 3 · Choose a JSON or members CSV export',
+    preview: `Step 2 of 3 · ${pendingCount} changes to apply`,
+    report: `Step 3 of 3 · ${failedCount > 0 ? `${failedCount} changes failed` : 'All changes applied'}`
+  }[step]
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-800 via-blue-900 to-slate-800 rounded-2xl border border-blue-300/30 p-6 w-full max-w-lg shadow-2xl">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-gradient-to-r from-orange-500 to-blue-500 rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-white font-bold text-lg">📥</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Import into {server.name}</h2>
+              <p className="text-blue-200/70 text-sm">{subtitle}</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-white/60 hover:text-white transition-colors p-1"
+            disabled={loading}
+          >
+            <span className="text-xl">✕</span>
+          </button>
+        </div>
+
+        {step === 'choose' && (
+          <div className="space-y-4">
+            <label className="block bg-white/5 hover:bg-white/10 border-2 border-dashed border-blue-300/30 rounded-xl p-6 text-center cursor-pointer transition-all duration-200">
+              <input
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="hidden"
+                disabled={loading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                  e.target.value = '' // Allow picking the same file again after fixing it
+                }}
+              />
+              <p className="text-3xl mb-2">{loading ? '⏳' : '📄'}</p>
+              <p className="text-white font-medium">{fileName || 'Choose a file'}</p>
+              <p className="text-blue-200/60 text-xs mt-1">Clubs are matched by id; nothing missing from the file is deleted</p>
+            </label>
+
+            {/* Validation Issues */}
+            {issues.length > 0 && (
+              <div className="bg-red-500/10 border border-red-400/20 rounded-xl p-3">
+                <p className="text-red-200 text-sm font-medium mb-2">⚠️ {issues.length} problems must be fixed before importing</p>
+                <ul className="max-h-48 overflow-y-auto space-y-1">
+                  {issues.map((issue, index) => (
+                    <li key={index} className="text-xs">
+                      <span className="text-white/70">{issue.where}:</span>{' '}
+                      <span className="text-red-200">{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          changes.length === 0 ? (
+            <p className="text-white/60 text-sm text-center py-6">✨ Everything in this file already matches the server</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto space-y-2">
+              {changes.map(change => (
+                <li key={change.key} className="bg-white/5 border border-white/10 rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-white text-sm font-medium truncate pr-2">
+                      <span className="text-white/50">{change.clubName} ›</span> {change.label}
+                    </p>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold border flex-shrink-0 ${ACTION_STYLES[change.action]}`}>
+                      {change.action}
+                    </span>
+                  </div>
+                  {change.details.length > 0 && (
+                    <p className="text-blue-200/60 text-xs mt-1">{change.details.join(' · ')}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+
+        {step === 'report' && (
+          <ul className="max-h-96 overflow-y-auto space-y-2">
+            {results.map(result => (
+              <li key={result.change.key} className="flex items-start justify-between bg-white/5 border border-white/10 rounded-lg p-2">
+                <span className="text-white text-sm truncate pr-2">
+                  <span className="text-white/50">{result.change.clubName} ›</span> {result.change.label}
+                </span>
+                <span className={`text-xs text-right ${result.status === 'failed' ? 'text-red-300' : 'text-white/70'}`}>
+                  {STATUS_ICONS[result.status]} {result.message ?? result.change.action}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {loading && step === 'preview' && (
+          <p className="text-blue-200/70 text-sm text-center mt-4">
+            Applying {progress} of {changes.length}...
+          </p>
+        )}
+
+        {/* Modal Footer */}
+        <div className="flex items-center justify-between mt-6 pt-4 border-t border-white/10">
+          <button
+            onClick={step === 'preview' ? () => setStep('choose') : handleClose}
+            className="text-white/60 hover:text-white transition-colors font-medium"
+            disabled={loading}
+          >
+            {step === 'preview' ? '← Back' : step === 'report' ? 'Close' : 'Cancel'}
+          </button>
+
+          {step === 'preview' && (
+            <button
+              onClick={handleApply}
+              disabled={loading || pendingCount === 0}
+              className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
+            >
+              {loading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                  <span>Importing...</span>
+                </>
+              ) : (
+                <span>Apply {pendingCount} Changes</span>
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
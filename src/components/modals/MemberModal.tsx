@@ -1,15 +1,16 @@
 import { useState, useEffect } from 'react'
-import { supabase } from '../../supabase'
-import type { Club, Server, Member } from '../../types'
+import { api, getErrorMessage, sendOrQueue } from '../../api'
+import { announceFollowUp } from '../../discord'
+import { mutateClub, updateCachedClub, changeShameList, pendingMemberId, upsertMember } from '../../cache'
+import type { Club, Member, PointsEntry } from '../../types'
+import MemberPointsHistory from '../MemberPointsHistory'
 
 interface MemberModalProps {
   isOpen: boolean
   onClose: () => void
   selectedClub: Club
-  selectedServerData: Server | undefined
-  onMemberSaved: () => void
   onError: (error: string) => void
-  editingMember?: Member // If provided, we're editing instead of adding
+  editingMember?: Member | null // If provided, we're editing instead of adding
 }
 
 interface MemberFormData {
@@ -19,16 +20,17 @@ interface MemberFormData {
   on_shame_list: boolean
 }
 
+type MemberModalTab = 'details' | 'points'
+
 export default function MemberModal({
   isOpen,
   onClose,
   selectedClub,
-  selectedServerData,
-  onMemberSaved,
   onError,
   editingMember
 }: MemberModalProps) {
   const [loading, setLoading] = useState(false)
+  const [activeTab, setActiveTab] = useState<MemberModalTab>('details')
   const [formData, setFormData] = useState<MemberFormData>({
     name: '',
     points: '0',
@@ -38,9 +40,15 @@ export default function MemberModal({
 
   const isEditing = !!editingMember
 
+  // Points are derived from the ledger, so show the club's latest total rather than the snapshot
+  const currentPoints = editingMember
+    ? selectedClub.members.find(member => member.id === editingMember.id)?.points ?? editingMember.points
+    : 0
+
   // Pre-populate form when editing
   useEffect(() => {
     if (isOpen) {
+      setActiveTab('details')
       if (editingMember) {
         // Edit mode - pre-populate with existing data
         const isOnShameList = selectedClub.shame_list.includes(editingMember.id)
@@ -71,7 +79,8 @@ export default function MemberModal({
     const points = parseInt(formData.points)
     const booksRead = parseInt(formData.books_read)
 
-    if (isNaN(points) || points < 0) {
+    // Starting points only apply to new members; later changes go through the ledger
+    if (!isEditing && (isNaN(points) || points < 0)) {
       onError('Points must be a non-negative number')
       return false
     }
@@ -93,104 +102,62 @@ export default function MemberModal({
 
       const memberData = {
         name: formData.name.trim(),
-        points: parseInt(formData.points),
         books_read: parseInt(formData.books_read)
       }
 
-      if (isEditing && editingMember) {
-        // Edit mode - update existing member
-        const requestBody = {
-          id: editingMember.id,
-          ...memberData
-        }
-
-        const { data, error } = await supabase.functions.invoke('member', {
-          method: 'PUT',
-          body: requestBody
-        })
-
-        if (error) throw error
-
-        // Handle shame list update separately for edit mode
-        if (formData.on_shame_list !== selectedClub.shame_list.includes(editingMember.id)) {
-          let newShameList = [...selectedClub.shame_list]
-          if (formData.on_shame_list) {
-            // Add to shame list
-            if (!newShameList.includes(editingMember.id)) {
-              newShameList.push(editingMember.id)
-            }
-          } else {
-            // Remove from shame list
-            newShameList = newShameList.filter(id => id !== editingMember.id)
-          }
-
-          const { error: shameError } = await supabase.functions.invoke('club', {
-            method: 'PUT',
-            body: {
-              id: selectedClub.id,
-              server_id: selectedServerData?.id,
-              shame_list: newShameList
-            }
-          })
-
-          if (shameError) {
-            console.error('Error updating shame list:', shameError)
-            onError('Member updated but failed to update shame list status')
-          }
-        }
-      } else {
-        // Add mode - create new member and add to club
-        const requestBody = {
-          ...memberData,
-          clubs: [selectedClub.id] // Add them to this specific club
-        }
-
-        const { data, error } = await supabase.functions.invoke('member', {
-          method: 'POST',
-          body: requestBody
-        })
-
-        if (error) throw error
-
-        // Handle shame list for new member
-        if (formData.on_shame_list && data.member) {
-          const newShameList = [...selectedClub.shame_list, data.member.id]
-
-          const { error: shameError } = await supabase.functions.invoke('club', {
-            method: 'PUT',
-            body: {
-              id: selectedClub.id,
-              server_id: selectedServerData?.id,
-              shame_list: newShameList
-            }
-          })
-
-          if (shameError) {
-            console.error('Error adding to shame list:', shameError)
-            onError('Member created but failed to add to shame list')
-          }
-        }
-      }
+      // Only send a shame list change when the status actually flips
+      const wasOnShameList = !!editingMember && selectedClub.shame_list.includes(editingMember.id)
+      const shameListChange = formData.on_shame_list === wasOnShameList
+        ? undefined
+        : formData.on_shame_list ? 'add' : 'remove'
+
+      // A new member shows up under a stand-in id until the server assigns the real one
+      const optimisticMember: Member = isEditing && editingMember
+        ? { ...editingMember, ...memberData }
+        : { ...memberData, id: pendingMemberId(), points: parseInt(formData.points), clubs: [selectedClub.id] }
+
+      // Announced once the server has the change, which may be after an offline replay
+      const followUps = shameListChange
+        ? [announceFollowUp(selectedClub, {
+            type: 'shame_list_changed',
+            added: shameListChange === 'add' ? [memberData.name] : [],
+            removed: shameListChange === 'remove' ? [memberData.name] : []
+          })]
+        : []
+
+      // Member fields and shame list status are saved together in one transaction
+      const label = `${isEditing ? 'Edit' : 'Add'} ${memberData.name} in ${selectedClub.name}`
+      await mutateClub(selectedClub.id, {
+        apply: club => changeShameList(upsertMember(club, optimisticMember), optimisticMember.id, shameListChange),
+        write: () => sendOrQueue(label, () => api.saveClubMember({
+          club_id: selectedClub.id,
+          member: isEditing && editingMember
+            ? { id: editingMember.id, ...memberData } // Edit mode - update existing member
+            : { ...memberData, points: parseInt(formData.points) }, // Add mode - opening ledger entry
+          shame_list: shameListChange
+        }), followUps),
+        reconcile: (club, member) => upsertMember(club, member, optimisticMember.id)
+      })
 
       // Reset form and close modal
       setFormData({ name: '', points: '0', books_read: '0', on_shame_list: false })
       onClose()
-      
-      // Notify parent component of successful save
-      onMemberSaved()
 
     } catch (err: unknown) {
-      console.error(`Error ${isEditing ? 'updating' : 'creating'} member:`, err)
-      onError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : `Failed to ${isEditing ? 'update' : 'add'} member`
-      )
+      onError(getErrorMessage(err, `Failed to ${isEditing ? 'update' : 'add'} member`))
     } finally {
       setLoading(false)
     }
   }
 
+  // The member's total is derived from the ledger; apply the new entry locally rather than refetching the club
+  const handlePointsChanged = (entry: PointsEntry) => {
+    updateCachedClub(selectedClub.id, club => {
+      const member = club.members.find(candidate => candidate.id === entry.member_id)
+      return member ? upsertMember(club, { ...member, points: member.points + entry.amount }) : club
+    })
+  }
+
   const handleClose = () => {
     setFormData({ name: '', points: '0', books_read: '0', on_shame_list: false })
     onError('') // Clear errors when closing
@@ -226,127 +193,170 @@ export default function MemberModal({
           </button>
         </div>
 
-        {/* Modal Form */}
-        <div className="space-y-4">
-          {/* Member Name Field */}
-          <div>
-            <label className="block text-white font-medium mb-2">
-              Member Name <span className="text-orange-400">*</span>
-            </label>
-            <input
-              type="text"
-              value={formData.name}
-              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-              placeholder="e.g., BookLover42"
-              className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-transparent transition-all duration-200"
-              disabled={loading}
-              maxLength={100}
-            />
-          </div>
-
-          {/* Points Field */}
-          <div>
-            <label className="block text-white font-medium mb-2">
-              Points
-            </label>
-            <input
-              type="number"
-              value={formData.points}
-              onChange={(e) => setFormData(prev => ({ ...prev, points: e.target.value }))}
-              placeholder="0"
-              min="0"
-              className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
-              disabled={loading}
-            />
-            <p className="text-blue-200/60 text-xs mt-1">
-              🏆 Member's current point total
-            </p>
-          </div>
-
-          {/* Books Read Field */}
-          <div>
-            <label className="block text-white font-medium mb-2">
-              Books Read
-            </label>
-            <input
-              type="number"
-              value={formData.books_read}
-              onChange={(e) => setFormData(prev => ({ ...prev, books_read: e.target.value }))}
-              placeholder="0"
-              min="0"
-              className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
-              disabled={loading}
-            />
-            <p className="text-blue-200/60 text-xs mt-1">
-              📚 Number of books completed
-            </p>
+        {/* Tabs */}
+        {isEditing && (
+          <div className="flex space-x-2 mb-4">
+            {([['details', '👤 Details'], ['points', '🏆 Points History']] as const).map(([tab, label]) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                disabled={loading}
+                className={`px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+                  activeTab === tab
+                    ? 'bg-white/20 text-white border border-white/30'
+                    : 'text-white/60 hover:text-white hover:bg-white/10 border border-transparent'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
+        )}
+
+        {isEditing && editingMember && activeTab === 'points' ? (
+          <MemberPointsHistory
+            member={editingMember}
+            selectedClub={selectedClub}
+            onPointsChanged={handlePointsChanged}
+            onError={onError}
+          />
+        ) : (
+          /* Modal Form */
+          <div className="space-y-4">
+            {/* Member Name Field */}
+            <div>
+              <label className="block text-white font-medium mb-2">
+                Member Name <span className="text-orange-400">*</span>
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., BookLover42"
+                className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:border-transparent transition-all duration-200"
+                disabled={loading}
+                maxLength={100}
+              />
+            </div>
 
-          {/* Shame List Toggle - Material 3 Style */}
-          <div>
-            <label className="block text-white font-medium mb-3">
-              Shame List Status
-            </label>
-            <div className="flex items-center justify-between bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl p-4">
-              <div className="flex items-center space-x-3">
-                <div className={`w-6 h-6 rounded-full flex items-center justify-center transition-all duration-200 ${
-                  formData.on_shame_list 
-                    ? 'bg-red-500 text-white' 
-                    : 'bg-green-500 text-white'
-                }`}>
-                  <span className="text-sm">
-                    {formData.on_shame_list ? '😰' : '✨'}
-                  </span>
-                </div>
-                <div>
-                  <p className="text-white font-medium">
-                    {formData.on_shame_list ? 'On Shame List' : 'Good Standing'}
-                  </p>
-                  <p className="text-blue-200/60 text-xs">
-                    {formData.on_shame_list 
-                      ? 'Member has fallen behind on reading' 
-                      : 'Member is up to date with reading'
-                    }
-                  </p>
+            {/* Points Field */}
+            {isEditing ? (
+              <div>
+                <label className="block text-white font-medium mb-2">
+                  Points
+                </label>
+                <div className="w-full bg-white/5 border border-blue-300/20 rounded-xl px-4 py-3 text-white font-bold">
+                  {currentPoints}
                 </div>
+                <p className="text-blue-200/60 text-xs mt-1">
+                  🏆 Award or deduct points from the Points History tab
+                </p>
               </div>
-              
-              {/* Material 3 Switch */}
-              <label className="relative inline-flex items-center cursor-pointer">
+            ) : (
+              <div>
+                <label className="block text-white font-medium mb-2">
+                  Starting Points
+                </label>
                 <input
-                  type="checkbox"
-                  checked={formData.on_shame_list}
-                  onChange={(e) => setFormData(prev => ({ ...prev, on_shame_list: e.target.checked }))}
-                  className="sr-only peer"
+                  type="number"
+                  value={formData.points}
+                  onChange={(e) => setFormData(prev => ({ ...prev, points: e.target.value }))}
+                  placeholder="0"
+                  min="0"
+                  className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
                   disabled={loading}
                 />
-                <div className={`relative w-14 h-8 rounded-full transition-all duration-300 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-orange-400/20 ${
-                  formData.on_shame_list 
-                    ? 'bg-red-500' 
-                    : 'bg-white/20'
-                } peer-checked:bg-red-500`}>
-                  <div className={`absolute top-1 left-1 w-6 h-6 bg-white rounded-full shadow-lg transition-all duration-300 flex items-center justify-center ${
-                    formData.on_shame_list ? 'translate-x-6' : 'translate-x-0'
+                <p className="text-blue-200/60 text-xs mt-1">
+                  🏆 Recorded as the member's opening points entry
+                </p>
+              </div>
+            )}
+
+            {/* Books Read Field */}
+            <div>
+              <label className="block text-white font-medium mb-2">
+                Books Read
+              </label>
+              <input
+                type="number"
+                value={formData.books_read}
+                onChange={(e) => setFormData(prev => ({ ...prev, books_read: e.target.value }))}
+                placeholder="0"
+                min="0"
+                className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+                disabled={loading}
+              />
+              <p className="text-blue-200/60 text-xs mt-1">
+                📚 Number of books completed
+              </p>
+            </div>
+
+            {/* Shame List Toggle - Material 3 Style */}
+            <div>
+              <label className="block text-white font-medium mb-3">
+                Shame List Status
+              </label>
+              <div className="flex items-center justify-between bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl p-4">
+                <div className="flex items-center space-x-3">
+                  <div className={`w-6 h-6 rounded-full flex items-center justify-center transition-all duration-200 ${
+                    formData.on_shame_list 
+                      ? 'bg-red-500 text-white' 
+                      : 'bg-green-500 text-white'
                   }`}>
-                    <span className="text-xs">
+                    <span className="text-sm">
                       {formData.on_shame_list ? '😰' : '✨'}
                     </span>
                   </div>
+                  <div>
+                    <p className="text-white font-medium">
+                      {formData.on_shame_list ? 'On Shame List' : 'Good Standing'}
+                    </p>
+                    <p className="text-blue-200/60 text-xs">
+                      {formData.on_shame_list 
+                        ? 'Member has fallen behind on reading' 
+                        : 'Member is up to date with reading'
+                      }
+                    </p>
+                  </div>
                 </div>
-              </label>
+                
+                {/* Material 3 Switch */}
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formData.on_shame_list}
+                    onChange={(e) => setFormData(prev => ({ ...prev, on_shame_list: e.target.checked }))}
+                    className="sr-only peer"
+                    disabled={loading}
+                  />
+                  <div className={`relative w-14 h-8 rounded-full transition-all duration-300 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-orange-400/20 ${
+                    formData.on_shame_list 
+                      ? 'bg-red-500' 
+                      : 'bg-white/20'
+                  } peer-checked:bg-red-500`}>
+                    <div className={`absolute top-1 left-1 w-6 h-6 bg-white rounded-full shadow-lg transition-all duration-300 flex items-center justify-center ${
+                      formData.on_shame_list ? 'translate-x-6' : 'translate-x-0'
+                    }`}>
+                      <span className="text-xs">
+                        {formData.on_shame_list ? '😰' : '✨'}
+                      </span>
+                    </div>
+                  </div>
+                </label>
+              </div>
             </div>
-          </div>
 
-          {/* Club Context */}
-          <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-3">
-            <p className="text-blue-200 text-sm font-medium">
-              📚 Club: <span className="text-white">{selectedClub.name}</span>
-            </p>
-            <p className="text-blue-200/60 text-xs mt-1">
-              {isEditing ? 'Updating member in' : 'Adding member to'} this club
-            </p>
+            {/* Club Context */}
+            <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-3">
+              <p className="text-blue-200 text-sm font-medium">
+                📚 Club: <span className="text-white">{selectedClub.name}</span>
+              </p>
+              <p className="text-blue-200/60 text-xs mt-1">
+                {isEditing ? 'Updating member in' : 'Adding member to'} this club
+              </p>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Modal Footer */}
         <div className="flex items-center justify-between mt-6 pt-4 border-t border-white/10">
@@ -355,23 +365,25 @@ export default function MemberModal({
             className="text-white/60 hover:text-white transition-colors font-medium"
             disabled={loading}
           >
-            Cancel
+            {activeTab === 'points' ? 'Close' : 'Cancel'}
           </button>
           
-          <button
-            onClick={handleSubmit}
-            disabled={loading || !formData.name.trim()}
-            className="bg-gradient-to-r from-blue-500 to-orange-500 hover:from-blue-600 hover:to-orange-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
-          >
-            {loading ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-                <span>{isEditing ? 'Updating...' : 'Adding...'}</span>
-              </>
-            ) : (
-              <span>{isEditing ? 'Update Member' : 'Add Member'}</span>
-            )}
-          </button>
+          {activeTab === 'details' && (
+            <button
+              onClick={handleSubmit}
+              disabled={loading || !formData.name.trim()}
+              className="bg-gradient-to-r from-blue-500 to-orange-500 hover:from-blue-600 hover:to-orange-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
+            >
+              {loading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                  <span>{isEditing ? 'Updating...' : 'Adding...'}</span>
+                </>
+              ) : (
+                <span>{isEditing ? 'Update Member' : 'Add Member'}</span>
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react'
+import { api, getErrorMessage } from '../../api'
+import { useAuth } from '../../auth'
+import type { Club, Server } from '../../types'
+
+interface MoveClubModalProps {
+  isOpen: boolean
+  onClose: () => void
+  clubToMove: { id: string; name: string } | null
+  sourceServer: Server
+  servers: Server[]
+  onClubMoved: (club: Club) => void
+  onError: (error: string) => void
+}
+
+export default function MoveClubModal({
+  isOpen,
+  onClose,
+  clubToMove,
+  sourceServer,
+  servers,
+  onClubMoved,
+  onError
+}: MoveClubModalProps) {
+  const [loading, setLoading] = useState(false)
+  const [targetServerId, setTargetServerId] = useState('')
+  const { can } = useAuth()
+
+  // Only servers the admin also manages can receive the club
+  const destinations = servers.filter(server => server.id !== sourceServer.id && can('manage_servers', { serverId: server.id }))
+  const targetServer = destinations.find(server => server.id === targetServerId)
+
+  useEffect(() => {
+    if (isOpen) setTargetServerId('')
+  }, [isOpen])
+
+  const handleMove = async () => {
+    if (!clubToMove || !targetServer) return
+
+    if (!can('manage_servers', { serverId: sourceServer.id }) || !can('manage_servers', { serverId: targetServer.id })) {
+      onError('You need to manage both servers to move a club between them')
+      return
+    }
+
+    try {
+      setLoading(true)
+      onError('')
+
+      const moved = await api.moveClub({ id: clubToMove.id, server_id: sourceServer.id, to_server_id: targetServer.id })
+
+      // Close modal and notify parent
+      onClose()
+      onClubMoved(moved)
+
+    } catch (err: unknown) {
+      onError(getErrorMessage(err, 'Failed to move club'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen || !clubToMove) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-800 via-blue-900 to-slate-800 rounded-2xl border border-blue-300/30 p-6 w-full max-w-md shadow-2xl">
+        {/* Modal Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-gradient-to-r from-blue-500 to-orange-500 rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-white font-bold text-lg">🚚</span>
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Move Club</h2>
+              <p className="text-blue-200/70 text-sm">Send a club to another server</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/60 hover:text-white transition-colors p-1"
+            disabled={loading}
+          >
+            <span className="text-xl">✕</span>
+          </button>
+        </div>
+
+        {/* Modal Form */}
+        <div className="space-y-4">
+          <p className="text-white">
+            Move <span className="font-bold text-orange-300">"{clubToMove.name}"</span> out of{' '}
+            <span className="font-medium">{sourceServer.name}</span> to:
+          </p>
+
+          {/* Destination Server Field */}
+          {destinations.length === 0 ? (
+            <p className="text-white/60 text-sm">
+              You don't manage any other server yet; create one first.
+            </p>
+          ) : (
+            <select
+              value={targetServerId}
+              onChange={(e) => setTargetServerId(e.target.value)}
+              className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200 cursor-pointer"
+              disabled={loading}
+            >
+              <option value="" className="bg-slate-800 text-white">Choose a server</option>
+              {destinations.map(server => (
+                <option key={server.id} value={server.id} className="bg-slate-800 text-white">{server.name}</option>
+              ))}
+            </select>
+          )}
+
+          {/* What Moves */}
+          <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-4">
+            <p className="text-blue-200 text-sm font-medium mb-2">📦 Moving with the club:</p>
+            <ul className="text-blue-200/80 text-sm space-y-1 ml-4">
+              <li>• All reading sessions and discussions</li>
+              <li>• Its members, points and shame list</li>
+            </ul>
+            <p className="text-blue-200/60 text-xs mt-3">
+              Members who also belong to clubs staying on {sourceServer.name} keep those memberships.
+            </p>
+          </div>
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex items-center justify-between mt-6 pt-4 border-t border-white/10">
+          <button
+            onClick={onClose}
+            className="text-white/60 hover:text-white transition-colors font-medium"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+
+          <button
+            onClick={handleMove}
+            disabled={loading || !targetServer}
+            className="bg-gradient-to-r from-orange-500 to-blue-500 hover:from-orange-600 hover:to-blue-600 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-xl font-bold transition-all duration-200 hover:scale-105 shadow-lg disabled:hover:scale-100 flex items-center space-x-2"
+          >
+            {loading ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                <span>Moving...</span>
+              </>
+            ) : (
+              <span>Move Club</span>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
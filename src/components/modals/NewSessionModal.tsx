@@ -1,6 +1,12 @@
-import { useState } from 'react'
-import { supabase } from '../../supabase'
+import { useState, useEffect } from 'react'
+import { api, getErrorMessage, sendOrQueue } from '../../api'
+import { announceFollowUp, syncRemindersFollowUp } from '../../discord'
+import { getClubRules, getDefaultDueDate } from '../../clubs'
 import type { Club } from '../../types'
+import type { BookSearchResult } from '../../books'
+import type { ProposedDiscussion } from '../../schedule'
+import BookLookupPanel from '../BookLookupPanel'
+import ScheduleBuilder from '../ScheduleBuilder'
 
 interface NewSessionModalProps {
   isOpen: boolean
@@ -13,10 +19,25 @@ interface NewSessionModalProps {
 interface NewSessionFormData {
   title: string
   author: string
+  edition: string
   year: string
+  isbn: string
+  page_count: string
+  cover_url: string
   due_date: string
 }
 
+const emptyFormData: NewSessionFormData = {
+  title: '',
+  author: '',
+  edition: '',
+  year: '',
+  isbn: '',
+  page_count: '',
+  cover_url: '',
+  due_date: ''
+}
+
 export default function NewSessionModal({
   isOpen,
   onClose,
@@ -25,12 +46,16 @@ export default function NewSessionModal({
   onError
 }: NewSessionModalProps) {
   const [loading, setLoading] = useState(false)
-  const [formData, setFormData] = useState<NewSessionFormData>({
-    title: '',
-    author: '',
-    year: '',
-    due_date: ''
-  })
+  const [formData, setFormData] = useState<NewSessionFormData>(emptyFormData)
+  const [scheduledDiscussions, setScheduledDiscussions] = useState<ProposedDiscussion[]>([])
+  const rules = getClubRules(selectedClub)
+
+  // Suggest a due date from the club's usual session length
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(prev => (prev.due_date ? prev : { ...prev, due_date: getDefaultDueDate(rules.session_length_days) }))
+    }
+  }, [isOpen, rules.session_length_days])
 
   const validateDueDate = (dateString: string): boolean => {
     if (!dateString) return true // Optional field
@@ -40,6 +65,21 @@ export default function NewSessionModal({
     return selectedDate > today
   }
 
+  // Fill the book fields from a lookup result, keeping the chosen due date
+  const handleBookSelected = (book: BookSearchResult) => {
+    setFormData(prev => ({
+      ...prev,
+      title: book.title,
+      author: book.author,
+      // Details the result doesn't have keep whatever was already entered
+      edition: book.edition || prev.edition,
+      year: book.year ? String(book.year) : prev.year,
+      isbn: book.isbn || prev.isbn,
+      page_count: book.page_count ? String(book.page_count) : prev.page_count,
+      cover_url: book.cover_url || prev.cover_url
+    }))
+  }
+
   const handleSubmit = async () => {
     if (!formData.title.trim() || !formData.author.trim()) {
       onError('Title and Author are required')
@@ -56,52 +96,61 @@ export default function NewSessionModal({
       return
     }
 
+    if (scheduledDiscussions.some(discussion => !discussion.title.trim() || !discussion.date)) {
+      onError('Every scheduled discussion needs a title and a date')
+      return
+    }
+
     try {
       setLoading(true)
       onError('') // Clear any existing errors
 
-      const requestBody = {
-        club_id: selectedClub.id,
+      const session = {
         book: {
           title: formData.title.trim(),
           author: formData.author.trim(),
-          year: formData.year.trim() ? parseInt(formData.year.trim()) : undefined
+          edition: formData.edition.trim() || undefined,
+          year: formData.year.trim() ? parseInt(formData.year.trim()) : undefined,
+          isbn: formData.isbn.trim() || undefined,
+          page_count: formData.page_count.trim() ? parseInt(formData.page_count.trim()) : undefined,
+          cover_url: formData.cover_url || undefined
         },
-        due_date: formData.due_date
+        due_date: formData.due_date,
+        discussions: scheduledDiscussions.map(discussion => ({
+          title: discussion.title.trim(),
+          date: discussion.date,
+          location: rules.discussion_location || undefined
+        }))
       }
 
-      console.log('Creating new session:', requestBody)
-
-      const { data, error } = await supabase.functions.invoke('session', {
-        method: 'POST',
-        body: requestBody
-      })
-
-      if (error) throw error
-
-      console.log('Session created successfully:', data)
+      // Discord is best-effort and waits until the server has the session
+      const created = await sendOrQueue(
+        `Start ${session.book.title} in ${selectedClub.name}`,
+        () => api.createSession({ club_id: selectedClub.id, ...session }),
+        [
+          announceFollowUp(selectedClub, { type: 'session_started', book: session.book, due_date: session.due_date }),
+          syncRemindersFollowUp(selectedClub, session)
+        ]
+      )
 
       // Reset form and close modal
-      setFormData({ title: '', author: '', year: '', due_date: '' })
+      setFormData(emptyFormData)
+      setScheduledDiscussions([])
       onClose()
       
-      // Notify parent component of successful creation
-      onSessionCreated()
+      // Notify parent component of successful creation; a queued session shows up once it syncs
+      if (created !== null) onSessionCreated()
 
     } catch (err: unknown) {
-      console.error('Error creating session:', err)
-      onError(
-        err && typeof err === 'object' && 'message' in err
-          ? String(err.message)
-          : 'Failed to create session'
-      )
+      onError(getErrorMessage(err, 'Failed to create session'))
     } finally {
       setLoading(false)
     }
   }
 
   const handleClose = () => {
-    setFormData({ title: '', author: '', year: '', due_date: '' })
+    setFormData(emptyFormData)
+    setScheduledDiscussions([])
     onError('') // Clear errors when closing
     onClose()
   }
@@ -138,6 +187,9 @@ export default function NewSessionModal({
 
         {/* Modal Form */}
         <div className="space-y-4">
+          {/* Book Metadata Lookup */}
+          <BookLookupPanel onSelect={handleBookSelected} disabled={loading} />
+
           {/* Book Title Field */}
           <div>
             <label className="block text-white font-medium mb-2">
@@ -170,6 +222,22 @@ export default function NewSessionModal({
             />
           </div>
 
+          {/* Edition Field */}
+          <div>
+            <label className="block text-white font-medium mb-2">
+              Edition <span className="text-white/50">(optional)</span>
+            </label>
+            <input
+              type="text"
+              value={formData.edition}
+              onChange={(e) => setFormData(prev => ({ ...prev, edition: e.target.value }))}
+              placeholder="e.g., First, Paperback, 2nd Edition"
+              className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+              disabled={loading}
+              maxLength={50}
+            />
+          </div>
+
           {/* Year Field */}
           <div>
             <label className="block text-white font-medium mb-2">
@@ -187,6 +255,54 @@ export default function NewSessionModal({
             />
           </div>
 
+          {/* ISBN & Page Count Fields */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-white font-medium mb-2">
+                ISBN <span className="text-white/50">(optional)</span>
+              </label>
+              <input
+                type="text"
+                value={formData.isbn}
+                onChange={(e) => setFormData(prev => ({ ...prev, isbn: e.target.value }))}
+                placeholder="e.g., 9780618574940"
+                className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+                disabled={loading}
+                maxLength={17}
+              />
+            </div>
+            <div>
+              <label className="block text-white font-medium mb-2">
+                Pages <span className="text-white/50">(optional)</span>
+              </label>
+              <input
+                type="number"
+                value={formData.page_count}
+                onChange={(e) => setFormData(prev => ({ ...prev, page_count: e.target.value }))}
+                placeholder="e.g., 432"
+                min="1"
+                className="w-full bg-white/10 backdrop-blur-md border border-blue-300/30 rounded-xl px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent transition-all duration-200"
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          {/* Cover Preview */}
+          {formData.cover_url && (
+            <div className="flex items-center space-x-3 bg-white/5 border border-white/10 rounded-xl p-3">
+              <img src={formData.cover_url} alt="Book cover" className="w-10 h-14 object-cover rounded shadow" />
+              <p className="flex-1 text-blue-200/70 text-sm">Cover from book lookup</p>
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, cover_url: '' }))}
+                className="text-white/60 hover:text-white text-sm transition-colors"
+                disabled={loading}
+              >
+                Remove
+              </button>
+            </div>
+          )}
+
           {/* Due Date Field */}
           <div>
             <label className="block text-white font-medium mb-2">
@@ -205,6 +321,16 @@ export default function NewSessionModal({
             </p>
           </div>
 
+          {/* Discussion Schedule Builder */}
+          <ScheduleBuilder
+            dueDate={formData.due_date}
+            pageCount={formData.page_count ? parseInt(formData.page_count) : undefined}
+            discussions={scheduledDiscussions}
+            onChange={setScheduledDiscussions}
+            defaultCadence={rules.discussion_cadence}
+            disabled={loading}
+          />
+
           {/* Club Context */}
           <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-3">
             <p className="text-blue-200 text-sm font-medium">
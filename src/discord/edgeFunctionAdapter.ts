@@ -0,0 +1,10 @@
+import { api } from '../api'
+import type { DiscordAdapter } from './types'
+
+// Posts through the discord Edge Function, which talks to Discord with the bot token
+export const edgeFunctionAdapter: DiscordAdapter = {
+  name: 'Discord bot',
+  post: (channel, content) => api.postDiscordMessage({ channel, content }),
+  scheduleReminders: (club, reminders) =>
+    api.scheduleDiscordReminders({ club_id: club.id, channel: club.discord_channel, reminders })
+}
@@ -0,0 +1,14 @@
+export { announce, syncReminders, announceFollowUp, syncRemindersFollowUp, discordAdapter } from './notify'
+export { edgeFunctionAdapter } from './edgeFunctionAdapter'
+export { mockAdapter, getMockPosts, getMockReminders, resetMockDiscord } from './mockAdapter'
+export { formatAnnouncement } from './messages'
+export { planReminders, parseReminderDays } from './reminders'
+export type { MockDiscordPost } from './mockAdapter'
+export type {
+  ClubAnnouncement,
+  DiscordAdapter,
+  DiscordClub,
+  DiscordReminder,
+  DiscussionDetails,
+  ReminderSession
+} from './types'
@@ -0,0 +1,38 @@
+import type { ClubAnnouncement, DiscussionDetails } from './types'
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString()
+
+const describeDiscussion = (discussion: DiscussionDetails) =>
+  `${formatDate(discussion.date)}${discussion.location ? ` at ${discussion.location}` : ''}`
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+// Discord markdown for one announcement
+export function formatAnnouncement(clubName: string, announcement: ClubAnnouncement): string {
+  switch (announcement.type) {
+    case 'session_started':
+      return `📖 **${clubName}** started a new book: **${announcement.book.title}** by ${announcement.book.author}. Finish it by ${formatDate(announcement.due_date)}!`
+    case 'book_changed':
+      return `✏️ **${clubName}** is now reading **${announcement.after.title}** by ${announcement.after.author} (was ${announcement.before.title}).`
+    case 'discussion_added':
+      return `💬 New discussion for **${clubName}**: **${announcement.discussion.title}** on ${describeDiscussion(announcement.discussion)}.`
+    case 'discussion_moved':
+      return `📅 **${announcement.after.title}** moved from ${describeDiscussion(announcement.before)} to ${describeDiscussion(announcement.after)}.`
+    case 'discussion_deleted':
+      return `🗑️ **${announcement.discussion.title}** on ${describeDiscussion(announcement.discussion)} has been cancelled.`
+    case 'shame_list_changed':
+      return [
+        `😈 **${clubName}** shame list update:`,
+        ...(announcement.added.length > 0 ? [`Added: ${announcement.added.join(', ')}`] : []),
+        ...(announcement.removed.length > 0 ? [`Redeemed: ${announcement.removed.join(', ')}`] : [])
+      ].join('\n')
+  }
+}
+
+export function formatDiscussionReminder(clubName: string, discussion: DiscussionDetails, daysBefore: number): string {
+  return `⏰ **${clubName}**: **${discussion.title}** is in ${plural(daysBefore, 'day')} (${describeDiscussion(discussion)}).`
+}
+
+export function formatDueReminder(clubName: string, bookTitle: string, dueDate: string, daysBefore: number): string {
+  return `⏰ **${clubName}**: ${plural(daysBefore, 'day')} left to finish **${bookTitle}** (due ${formatDate(dueDate)}).`
+}
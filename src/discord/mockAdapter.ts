@@ -0,0 +1,32 @@
+import type { DiscordAdapter, DiscordClub, DiscordReminder } from './types'
+
+export interface MockDiscordPost {
+  channel: string
+  content: string
+  posted_at: string
+}
+
+// Offline stand-in that keeps everything in memory and logs it, for tests and local development
+const posts: MockDiscordPost[] = []
+const reminders = new Map<DiscordClub['id'], DiscordReminder[]>()
+
+export const mockAdapter: DiscordAdapter = {
+  name: 'Local mock',
+  post: async (channel, content) => {
+    posts.push({ channel, content, posted_at: new Date().toISOString() })
+    console.info(`[discord:mock] #${channel}\n${content}`)
+  },
+  scheduleReminders: async (club, clubReminders) => {
+    reminders.set(club.id, clubReminders)
+    console.info(`[discord:mock] #${club.discord_channel} ${clubReminders.length} reminders scheduled`, clubReminders)
+  }
+}
+
+export const getMockPosts = (): MockDiscordPost[] => [...posts]
+
+export const getMockReminders = (clubId: DiscordClub['id']): DiscordReminder[] => reminders.get(clubId) ?? []
+
+export function resetMockDiscord() {
+  posts.length = 0
+  reminders.clear()
+}
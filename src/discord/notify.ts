@@ -0,0 +1,89 @@
+import { registerFollowUp } from '../api'
+import type { FollowUp } from '../api'
+import { getClubRules } from '../clubs'
+import { edgeFunctionAdapter } from './edgeFunctionAdapter'
+import { mockAdapter } from './mockAdapter'
+import { formatAnnouncement } from './messages'
+import { parseReminderDays, planReminders } from './reminders'
+import type { ClubAnnouncement, DiscordAdapter, DiscordClub, ReminderSession } from './types'
+
+// VITE_DISCORD_ADAPTER=mock swaps in the offline adapter, =off disables Discord entirely
+const ADAPTERS: Record<string, DiscordAdapter | null> = {
+  bot: edgeFunctionAdapter,
+  mock: mockAdapter,
+  off: null
+}
+
+const adapterKey = import.meta.env.VITE_DISCORD_ADAPTER ?? 'bot'
+
+// Unknown values fall back to the bot; off has to stay null rather than fall through with them
+export const discordAdapter: DiscordAdapter | null =
+  adapterKey in ADAPTERS ? ADAPTERS[adapterKey] : edgeFunctionAdapter
+
+const reminderDays = parseReminderDays(import.meta.env.VITE_DISCORD_REMINDER_DAYS)
+
+// Clubs without a channel are skipped rather than posted to a default one
+const getTarget = (club: DiscordClub) => {
+  const channel = club.discord_channel?.trim()
+  return discordAdapter && channel ? { adapter: discordAdapter, channel } : null
+}
+
+/**
+ * Post an announcement to the club's channel. Never throws: the edit it
+ * reports has already been saved, so a Discord outage is only logged.
+ */
+export async function announce(club: DiscordClub, announcement: ClubAnnouncement): Promise<void> {
+  const target = getTarget(club)
+  if (!target) return
+
+  try {
+    await target.adapter.post(target.channel, formatAnnouncement(club.name, announcement))
+  } catch (err: unknown) {
+    console.warn(`[discord] Failed to announce ${announcement.type} in #${target.channel}:`, err)
+  }
+}
+
+/**
+ * Replace the club's pending reminders with those for `session`, or cancel
+ * them all when the club no longer has an active session. Never throws.
+ */
+export async function syncReminders(club: DiscordClub, session: ReminderSession | null): Promise<void> {
+  const target = getTarget(club)
+  if (!target) return
+
+  try {
+    const reminders = session ? planReminders(club.name, session, reminderDays, getClubRules(club).timezone) : []
+    await target.adapter.scheduleReminders(club, reminders)
+  } catch (err: unknown) {
+    console.warn(`[discord] Failed to schedule reminders for #${target.channel}:`, err)
+  }
+}
+
+interface AnnouncePayload {
+  club: DiscordClub
+  announcement: ClubAnnouncement
+}
+
+interface RemindersPayload {
+  club: DiscordClub
+  session: ReminderSession | null
+}
+
+// Only what Discord needs is kept, since queued follow-ups are stored with the write
+const toDiscordClub = ({ id, name, discord_channel, rules }: DiscordClub): DiscordClub =>
+  ({ id, name, discord_channel, rules })
+
+registerFollowUp<AnnouncePayload>('discord_announce', ({ club, announcement }) => announce(club, announcement))
+registerFollowUp<RemindersPayload>('discord_reminders', ({ club, session }) => syncReminders(club, session))
+
+// announce() once the write it reports has been saved; pass to sendOrQueue
+export function announceFollowUp(club: DiscordClub, announcement: ClubAnnouncement): FollowUp {
+  const payload: AnnouncePayload = { club: toDiscordClub(club), announcement }
+  return { kind: 'discord_announce', payload }
+}
+
+// syncReminders() once the write it reflects has been saved; pass to sendOrQueue
+export function syncRemindersFollowUp(club: DiscordClub, session: ReminderSession | null): FollowUp {
+  const payload: RemindersPayload = { club: toDiscordClub(club), session }
+  return { kind: 'discord_reminders', payload }
+}
@@ -0,0 +1,70 @@
+import { formatDiscussionReminder, formatDueReminder } from './messages'
+import type { DiscordReminder, ReminderSession } from './types'
+
+// Reminders go out in the morning, in the club's timezone, N days before the event
+const REMINDER_HOUR = 9
+
+const DEFAULT_REMINDER_DAYS = [1]
+
+// VITE_DISCORD_REMINDER_DAYS=3,1 sends a reminder three days and one day ahead
+export const parseReminderDays = (value: string | undefined): number[] => {
+  const days = (value ?? '')
+    .split(',')
+    .map(day => parseInt(day.trim()))
+    .filter(day => Number.isInteger(day) && day > 0)
+  return days.length > 0 ? [...new Set(days)].sort((a, b) => b - a) : DEFAULT_REMINDER_DAYS
+}
+
+// Minutes `timeZone` is ahead of UTC at `instant`
+const getTimezoneOffset = (instant: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    }).formatToParts(instant).map(part => [part.type, Number(part.value)])
+  )
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+  return Math.round((wallClock - instant.getTime()) / 60000)
+}
+
+// Without a timezone the browser's own is used
+const reminderTime = (date: string, daysBefore: number, timeZone?: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  if (!timeZone) return new Date(year, month - 1, day - daysBefore, REMINDER_HOUR)
+
+  const asUtc = new Date(Date.UTC(year, month - 1, day - daysBefore, REMINDER_HOUR))
+  return new Date(asUtc.getTime() - getTimezoneOffset(asUtc, timeZone) * 60000)
+}
+
+/**
+ * Every reminder still ahead of `now` for a session's discussions and due date,
+ * in the order they will be sent.
+ */
+export function planReminders(
+  clubName: string,
+  session: ReminderSession,
+  daysBefore: number[],
+  timeZone?: string,
+  now = new Date()
+): DiscordReminder[] {
+  const reminders = daysBefore.flatMap(days => [
+    ...session.discussions.map(discussion => ({
+      sendAt: reminderTime(discussion.date, days, timeZone),
+      content: formatDiscussionReminder(clubName, discussion, days)
+    })),
+    {
+      sendAt: reminderTime(session.due_date, days, timeZone),
+      content: formatDueReminder(clubName, session.book.title, session.due_date, days)
+    }
+  ])
+
+  return reminders
+    .filter(reminder => reminder.sendAt > now)
+    .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime())
+    .map(reminder => ({ send_at: reminder.sendAt.toISOString(), content: reminder.content }))
+}
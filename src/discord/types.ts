@@ -0,0 +1,32 @@
+import type { Book, Club, Discussion, Member, Session } from '../types'
+
+export type DiscussionDetails = Pick<Discussion, 'title' | 'date' | 'location'>
+
+// What a club's channel is told about; one message per announcement
+export type ClubAnnouncement =
+  | { type: 'session_started'; book: Book; due_date: string }
+  | { type: 'book_changed'; before: Book; after: Book }
+  | { type: 'discussion_added'; discussion: DiscussionDetails }
+  | { type: 'discussion_moved'; before: DiscussionDetails; after: DiscussionDetails }
+  | { type: 'discussion_deleted'; discussion: DiscussionDetails }
+  | { type: 'shame_list_changed'; added: Member['name'][]; removed: Member['name'][] }
+
+// Enough of a session to plan its reminders before the server has assigned ids
+export type ReminderSession = Pick<Session, 'book' | 'due_date'> & { discussions: DiscussionDetails[] }
+
+export interface DiscordReminder {
+  send_at: string // ISO timestamp
+  content: string
+}
+
+export type DiscordClub = Pick<Club, 'id' | 'name' | 'discord_channel' | 'rules'>
+
+/**
+ * Where announcements and reminders go. Implementations may throw; callers
+ * treat Discord as best-effort and never fail a dashboard edit because of it.
+ */
+export interface DiscordAdapter {
+  name: string
+  post: (channel: string, content: string) => Promise<void>
+  scheduleReminders: (club: DiscordClub, reminders: DiscordReminder[]) => Promise<void>
+}
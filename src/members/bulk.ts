@@ -0,0 +1,52 @@
+import { getErrorMessage } from '../api'
+import type { Member } from '../types'
+
+export type BulkMemberAction =
+  | 'shame_add'
+  | 'shame_remove'
+  | 'award_points'
+  | 'increment_books'
+  | 'remove_from_club'
+  | 'copy_to_club'
+
+export type BulkMemberStatus = 'done' | 'skipped' | 'failed'
+
+export interface BulkMemberResult {
+  member: Member
+  status: BulkMemberStatus
+  message?: string // Error for failures, reason for skips
+}
+
+export const BULK_MEMBER_ACTIONS: { value: BulkMemberAction; label: string; icon: string }[] = [
+  { value: 'shame_add', label: 'Add to shame list', icon: '😰' },
+  { value: 'shame_remove', label: 'Remove from shame list', icon: '✨' },
+  { value: 'award_points', label: 'Award points', icon: '🏆' },
+  { value: 'increment_books', label: 'Add a book read', icon: '📚' },
+  { value: 'remove_from_club', label: 'Remove from club', icon: '🚪' },
+  { value: 'copy_to_club', label: 'Copy to another club', icon: '📋' }
+]
+
+/**
+ * Run one operation per member, one at a time, collecting a result for each
+ * instead of stopping at the first failure. Returning a string skips the member
+ * with that reason.
+ */
+export async function runForEachMember(
+  members: Member[],
+  operation: (member: Member) => Promise<string | void>,
+  onProgress?: (completed: number) => void
+): Promise<BulkMemberResult[]> {
+  const results: BulkMemberResult[] = []
+
+  for (const member of members) {
+    try {
+      const skipReason = await operation(member)
+      results.push(skipReason ? { member, status: 'skipped', message: skipReason } : { member, status: 'done' })
+    } catch (err: unknown) {
+      results.push({ member, status: 'failed', message: getErrorMessage(err, 'Request failed') })
+    }
+    onProgress?.(results.length)
+  }
+
+  return results
+}
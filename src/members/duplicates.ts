@@ -0,0 +1,95 @@
+import type { Club, Member } from '../types'
+
+export type DuplicateReason = 'name' | 'discord_id'
+
+export interface DuplicateGroup {
+  key: string
+  members: Member[]
+  reasons: DuplicateReason[]
+}
+
+export interface MergePreview {
+  name: Member['name']
+  points: number
+  books_read: number
+  clubs: Club['id'][]
+  shameClubIds: Club['id'][] // Clubs where the merged member stays on the shame list
+}
+
+/**
+ * Fold case, accents, punctuation, a leading @ and a legacy #1234 Discord
+ * discriminator so "@Élodie#0420" and "elodie" compare equal.
+ */
+export const normalizeMemberName = (name: string): string =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/^@/, '')
+    .replace(/#\d{4}$/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+/**
+ * Group members that share a normalized name or a linked Discord ID. Matches are
+ * transitive, so A~B by name and B~C by Discord ID end up in one group.
+ */
+export function findDuplicateMembers(members: Member[]): DuplicateGroup[] {
+  const parent = new Map<Member['id'], Member['id']>(members.map(member => [member.id, member.id]))
+  const find = (id: Member['id']): Member['id'] => {
+    const root = parent.get(id) ?? id
+    if (root === id) return id
+    const top = find(root)
+    parent.set(id, top)
+    return top
+  }
+
+  const reasonsByMember = new Map<Member['id'], Set<DuplicateReason>>()
+  const link = (reason: DuplicateReason, keyOf: (member: Member) => string | undefined) => {
+    const firstByKey = new Map<string, Member['id']>()
+    members.forEach(member => {
+      const key = keyOf(member)
+      if (!key) return
+      const first = firstByKey.get(key)
+      if (first === undefined) {
+        firstByKey.set(key, member.id)
+        return
+      }
+      parent.set(find(member.id), find(first))
+      reasonsByMember.set(member.id, new Set([...(reasonsByMember.get(member.id) ?? []), reason]))
+    })
+  }
+
+  link('name', member => normalizeMemberName(member.name) || undefined)
+  link('discord_id', member => member.discord_id?.trim() || undefined)
+
+  const groups = new Map<Member['id'], DuplicateGroup>()
+  members.forEach(member => {
+    const root = find(member.id)
+    const group = groups.get(root) ?? { key: String(root), members: [], reasons: [] }
+    group.members.push(member)
+    reasonsByMember.get(member.id)?.forEach(reason => {
+      if (!group.reasons.includes(reason)) group.reasons.push(reason)
+    })
+    groups.set(root, group)
+  })
+
+  return [...groups.values()]
+    .filter(group => group.members.length > 1)
+    .map(group => ({ ...group, members: [...group.members].sort((a, b) => b.points - a.points || a.id - b.id) }))
+    .sort((a, b) => a.members[0].name.localeCompare(b.members[0].name))
+}
+
+// What the target will look like once the sources are merged into it
+export function previewMerge(target: Member, sources: Member[], clubs: Club[]): MergePreview {
+  const all = [target, ...sources]
+  const ids = all.map(member => member.id)
+
+  return {
+    name: target.name,
+    points: all.reduce((total, member) => total + member.points, 0),
+    books_read: all.reduce((total, member) => total + member.books_read, 0),
+    clubs: [...new Set(all.flatMap(member => member.clubs))],
+    shameClubIds: clubs.filter(club => club.shame_list.some(id => ids.includes(id))).map(club => club.id)
+  }
+}
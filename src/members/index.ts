@@ -0,0 +1,15 @@
+export {
+  MEMBERS_PAGE_SIZE,
+  DEFAULT_MEMBER_LIST,
+  defaultDirection,
+  resolveMemberList,
+  toMemberListQuery,
+  listMembers
+} from './memberList'
+export type { MemberListState, MemberListPage } from './memberList'
+export { BULK_MEMBER_ACTIONS, runForEachMember } from './bulk'
+export type { BulkMemberAction, BulkMemberResult, BulkMemberStatus } from './bulk'
+export { buildMemberProfile } from './profile'
+export type { MemberClubRecord, MemberProfileData } from './profile'
+export { normalizeMemberName, findDuplicateMembers, previewMerge } from './duplicates'
+export type { DuplicateGroup, DuplicateReason, MergePreview } from './duplicates'
@@ -0,0 +1,93 @@
+import type { MemberListQuery, MemberSortKey, SortDirection } from '../routing'
+import type { Club, Member } from '../types'
+
+export const MEMBERS_PAGE_SIZE = 25
+
+export interface MemberListState {
+  sort: MemberSortKey
+  dir: SortDirection
+  q: string
+  shame: boolean
+  page: number
+}
+
+export interface MemberListPage {
+  rows: Member[]
+  matchCount: number
+  page: number // Clamped to the pages that actually exist
+  pageCount: number
+}
+
+export const DEFAULT_MEMBER_LIST: MemberListState = {
+  sort: 'name',
+  dir: 'asc',
+  q: '',
+  shame: false,
+  page: 1
+}
+
+// Names read naturally A→Z; numbers and shame status are most useful highest first
+export const defaultDirection = (sort: MemberSortKey): SortDirection =>
+  sort === 'name' ? 'asc' : 'desc'
+
+export function resolveMemberList(query: MemberListQuery = {}): MemberListState {
+  const sort = query.sort ?? DEFAULT_MEMBER_LIST.sort
+  return {
+    sort,
+    dir: query.dir ?? defaultDirection(sort),
+    q: query.q ?? '',
+    shame: query.shame ?? false,
+    page: query.page ?? 1
+  }
+}
+
+// Inverse of resolveMemberList: only keep what differs from the defaults so URLs stay short
+export function toMemberListQuery(state: MemberListState): MemberListQuery | undefined {
+  const query: MemberListQuery = {
+    sort: state.sort !== DEFAULT_MEMBER_LIST.sort ? state.sort : undefined,
+    dir: state.dir !== defaultDirection(state.sort) ? state.dir : undefined,
+    q: state.q || undefined,
+    shame: state.shame || undefined,
+    page: state.page > 1 ? state.page : undefined
+  }
+  return Object.values(query).some(value => value !== undefined) ? query : undefined
+}
+
+/**
+ * Filter, sort and slice a club's members for one page of the members table.
+ */
+export function listMembers(club: Club, state: MemberListState): MemberListPage {
+  const term = state.q.trim().toLowerCase()
+  const onShameList = (member: Member) => club.shame_list.includes(member.id)
+
+  const compare = (a: Member, b: Member): number => {
+    switch (state.sort) {
+      case 'name':
+        return a.name.localeCompare(b.name)
+      case 'shame':
+        return Number(onShameList(a)) - Number(onShameList(b))
+      default:
+        return a[state.sort] - b[state.sort]
+    }
+  }
+
+  const matches = club.members
+    .filter(member => !term || member.name.toLowerCase().includes(term))
+    .filter(member => !state.shame || onShameList(member))
+    .sort((a, b) => {
+      const difference = compare(a, b)
+      // Ties fall back to name so paging is stable
+      if (difference === 0) return a.name.localeCompare(b.name)
+      return state.dir === 'asc' ? difference : -difference
+    })
+
+  const pageCount = Math.max(1, Math.ceil(matches.length / MEMBERS_PAGE_SIZE))
+  const page = Math.min(Math.max(1, state.page), pageCount)
+
+  return {
+    rows: matches.slice((page - 1) * MEMBERS_PAGE_SIZE, page * MEMBERS_PAGE_SIZE),
+    matchCount: matches.length,
+    page,
+    pageCount
+  }
+}
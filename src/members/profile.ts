@@ -0,0 +1,67 @@
+import type { Club, Member, PointsEntry, Server, Session } from '../types'
+
+export interface MemberClubRecord {
+  club: Club
+  server: Pick<Server, 'id' | 'name'>
+  points: number // Ledger entries tied to this club's sessions
+  onShameList: boolean
+  shameSessions: Session[] // Closed sessions the member ended on the shame list
+  finishedSessions: Session[]
+}
+
+export interface MemberProfileData {
+  clubs: MemberClubRecord[]
+  otherPoints: number // Entries not tied to any session, e.g. manual awards
+}
+
+// Reversals usually carry no session of their own, so they count against the entry they cancel
+const getEntrySessionId = (entry: PointsEntry, entriesById: Map<string, PointsEntry>) =>
+  entry.session_id ?? (entry.reverses_id ? entriesById.get(entry.reverses_id)?.session_id : undefined)
+
+/**
+ * Split a member's ledger and reading history by club. A closed session counts as
+ * finished when the member earned points for it and stayed off the shame list
+ * snapshot taken at close; sessions closed before snapshots existed are left out.
+ */
+export function buildMemberProfile(
+  memberId: Member['id'],
+  clubs: { club: Club; server: Pick<Server, 'id' | 'name'> }[],
+  entries: PointsEntry[]
+): MemberProfileData {
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]))
+  const pointsBySession = new Map<string, number>()
+  let otherPoints = 0
+
+  entries.forEach(entry => {
+    const sessionId = getEntrySessionId(entry, entriesById)
+    if (sessionId) {
+      pointsBySession.set(sessionId, (pointsBySession.get(sessionId) ?? 0) + entry.amount)
+    } else {
+      otherPoints += entry.amount
+    }
+  })
+
+  const records = clubs.map(({ club, server }) => {
+    const sessions = [...(club.active_session ? [club.active_session] : []), ...club.past_sessions]
+    const closedSessions = club.past_sessions
+      .filter(session => session.shame_list !== undefined)
+      .sort((a, b) => new Date(b.due_date).getTime() - new Date(a.due_date).getTime())
+
+    return {
+      club,
+      server,
+      points: sessions.reduce((total, session) => total + (pointsBySession.get(session.id) ?? 0), 0),
+      onShameList: club.shame_list.includes(memberId),
+      shameSessions: closedSessions.filter(session => session.shame_list?.includes(memberId)),
+      finishedSessions: closedSessions.filter(
+        session => !session.shame_list?.includes(memberId) && pointsBySession.has(session.id)
+      )
+    }
+  })
+
+  // Points from sessions of clubs the viewer cannot load still belong somewhere
+  const attributed = records.reduce((total, record) => total + record.points, 0)
+  const sessionTotal = [...pointsBySession.values()].reduce((total, points) => total + points, 0)
+
+  return { clubs: records, otherPoints: otherPoints + sessionTotal - attributed }
+}
@@ -0,0 +1 @@
+export { useOfflineSync } from './useOfflineSync'
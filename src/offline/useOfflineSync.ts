@@ -0,0 +1,53 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { getQueuedWrites, subscribeToQueue, replayQueue, retryQueuedWrite, discardQueuedWrite } from '../api'
+import type { QueuedWrite } from '../api'
+
+interface OfflineSyncHandlers {
+  onSynced: () => void
+}
+
+/**
+ * Track connectivity and the queue of writes made while offline, replaying it
+ * on load and whenever the browser comes back online.
+ */
+export function useOfflineSync({ onSynced }: OfflineSyncHandlers) {
+  const [online, setOnline] = useState(() => navigator.onLine)
+  const [writes, setWrites] = useState<QueuedWrite[]>(getQueuedWrites)
+
+  // Keep the latest callback without re-registering the listeners on every render
+  const onSyncedRef = useRef(onSynced)
+  useEffect(() => {
+    onSyncedRef.current = onSynced
+  }, [onSynced])
+
+  const sync = useCallback(async (run: () => Promise<number>) => {
+    const synced = await run()
+    if (synced > 0) onSyncedRef.current()
+  }, [])
+
+  useEffect(() => subscribeToQueue(setWrites), [])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      sync(replayQueue)
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    sync(replayQueue) // Writes left over from an earlier visit
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [sync])
+
+  return {
+    online,
+    writes,
+    retry: (id: string, overwrite?: boolean) => sync(() => retryQueuedWrite(id, overwrite)),
+    discard: discardQueuedWrite
+  }
+}
@@ -0,0 +1 @@
+export { getLedgerTotal, getReversedIds, sortNewestFirst } from './ledger'
@@ -0,0 +1,18 @@
+import type { PointsEntry } from '../types'
+
+export function getLedgerTotal(entries: PointsEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.amount, 0)
+}
+
+// Ids of entries that already have a reversal recorded against them
+export function getReversedIds(entries: PointsEntry[]): Set<string> {
+  return new Set(
+    entries.flatMap(entry => (entry.reverses_id ? [entry.reverses_id] : []))
+  )
+}
+
+export function sortNewestFirst(entries: PointsEntry[]): PointsEntry[] {
+  return [...entries].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )
+}
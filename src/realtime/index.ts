@@ -0,0 +1 @@
+export { useClubRealtime } from './useClubRealtime'
@@ -0,0 +1,117 @@
+import { useEffect, useRef } from 'react'
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase } from '../supabase'
+import { hasPendingRequests, isOwnRequest } from '../api'
+import type { Club } from '../types'
+
+// Several rows change per save (session + discussions, member + shame list), so batch them
+const DEBOUNCE_MS = 500
+
+type Row = Record<string, unknown>
+
+interface ClubTable {
+  table: string
+  // Server-side filter for inserts and updates; deletes can't be filtered and are matched by `matches` alone
+  filter?: (clubId: Club['id'], sessionId: string | undefined) => string | undefined
+  // A deleted row only carries its primary key, so that is enough to match it
+  matches: (club: Club, row: Partial<Row>) => boolean
+}
+
+const CLUB_TABLES: ClubTable[] = [
+  {
+    table: 'sessions',
+    filter: clubId => `club_id=eq.${clubId}`,
+    matches: (club, row) =>
+      row.club_id === club.id ||
+      row.id === club.active_session?.id ||
+      club.past_sessions.some(session => session.id === row.id)
+  },
+  {
+    table: 'memberclubs',
+    filter: clubId => `club_id=eq.${clubId}`,
+    matches: (club, row) => row.club_id === club.id
+  },
+  {
+    table: 'shamelist',
+    filter: clubId => `club_id=eq.${clubId}`,
+    matches: (club, row) => row.club_id === club.id
+  },
+  {
+    table: 'discussions',
+    filter: (_clubId, sessionId) => (sessionId ? `session_id=eq.${sessionId}` : undefined),
+    matches: (club, row) =>
+      row.session_id === club.active_session?.id ||
+      !!club.active_session?.discussions.some(discussion => discussion.id === row.id)
+  },
+  {
+    // Members have no club column; their ids are matched against the club's roster
+    table: 'members',
+    matches: (club, row) => club.members.some(member => member.id === row.id)
+  }
+]
+
+interface ClubRealtimeHandlers {
+  onChange: (changedByOthers: boolean) => void
+}
+
+/**
+ * Subscribe to database changes that affect the given club: its sessions and discussions,
+ * member rows and associations, and the shame list.
+ */
+export function useClubRealtime(club: Club | null, { onChange }: ClubRealtimeHandlers) {
+  // Keep the latest callback and club without resubscribing on every render
+  const onChangeRef = useRef(onChange)
+  const clubRef = useRef(club)
+  useEffect(() => {
+    onChangeRef.current = onChange
+    clubRef.current = club
+  }, [onChange, club])
+
+  const clubId = club?.id
+  const sessionId = club?.active_session?.id
+
+  useEffect(() => {
+    if (!clubId) return
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let changedByOthers = false
+
+    const handleChange = (matches: ClubTable['matches']) => (payload: RealtimePostgresChangesPayload<Row>) => {
+      const current = clubRef.current
+      const row: Partial<Row> = payload.eventType === 'DELETE' ? payload.old : payload.new
+      if (!current || !matches(current, row)) return
+
+      // Inserts and updates name the request that wrote them; a delete is ours while one of our writes is pending
+      const isOwn = payload.eventType === 'DELETE' ? hasPendingRequests() : isOwnRequest(row.last_request_id)
+      if (!isOwn) {
+        changedByOthers = true
+      }
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        onChangeRef.current(changedByOthers)
+        changedByOthers = false
+      }, DEBOUNCE_MS)
+    }
+
+    const channel = supabase.channel(`club-${clubId}`)
+    CLUB_TABLES.forEach(({ table, filter, matches }) => {
+      if (!filter) {
+        channel.on('postgres_changes', { event: '*', schema: 'public', table }, handleChange(matches))
+        return
+      }
+
+      const rowFilter = filter(clubId, sessionId)
+      if (rowFilter) {
+        channel.on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: rowFilter }, handleChange(matches))
+        channel.on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: rowFilter }, handleChange(matches))
+      }
+      channel.on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handleChange(matches))
+    })
+    channel.subscribe()
+
+    return () => {
+      clearTimeout(timer)
+      supabase.removeChannel(channel)
+    }
+  }, [clubId, sessionId])
+}
@@ -0,0 +1,3 @@
+export { useRoute } from './useRoute'
+export { buildPath, isServerView, parseRoute, toClubView } from './routes'
+export type { ClubView, ServerView, DashboardRoute, MemberListQuery, MemberSortKey, RouteModal, SortDirection } from './routes'
@@ -0,0 +1,147 @@
+export type ClubView = 'overview' | 'members' | 'history' | 'stats' | 'activity' | 'settings'
+
+// Views that span every club on a server rather than a single club
+export type ServerView = 'stats' | 'calendar' | 'duplicates' | 'trash' | 'activity' | 'admin'
+
+export type RouteModal = 'add-server' | 'add-club' | 'edit-book' | 'new-session' | 'close-session' | 'export' | 'import'
+
+export type MemberSortKey = 'name' | 'points' | 'books_read' | 'shame'
+
+export type SortDirection = 'asc' | 'desc'
+
+// Members table view state; omitted fields fall back to the table's defaults
+export interface MemberListQuery {
+  sort?: MemberSortKey
+  dir?: SortDirection
+  q?: string
+  shame?: boolean
+  page?: number
+}
+
+export interface DashboardRoute {
+  serverId?: string
+  clubId?: string
+  memberId?: number // Member profile, shown instead of a club
+  view: ClubView | ServerView
+  modal?: RouteModal
+  members?: MemberListQuery
+}
+
+const CLUB_VIEWS: ClubView[] = ['overview', 'members', 'history', 'stats', 'activity', 'settings']
+const SERVER_VIEWS: ServerView[] = ['stats', 'calendar', 'duplicates', 'trash', 'activity', 'admin']
+const ROUTE_MODALS: RouteModal[] = ['add-server', 'add-club', 'edit-book', 'new-session', 'close-session', 'export', 'import']
+const MEMBER_SORT_KEYS: MemberSortKey[] = ['name', 'points', 'books_read', 'shame']
+
+const isClubView = (value: string | undefined): value is ClubView =>
+  !!value && (CLUB_VIEWS as string[]).includes(value)
+
+// Server-only views have no club equivalent, so they fall back to the overview
+export const toClubView = (view: DashboardRoute['view']): ClubView =>
+  isClubView(view) ? view : 'overview'
+
+export const isServerView = (value: string | undefined): value is ServerView =>
+  !!value && (SERVER_VIEWS as string[]).includes(value)
+
+const isRouteModal = (value: string | null): value is RouteModal =>
+  !!value && (ROUTE_MODALS as string[]).includes(value)
+
+const isMemberSortKey = (value: string | null): value is MemberSortKey =>
+  !!value && (MEMBER_SORT_KEYS as string[]).includes(value)
+
+function parseMemberListQuery(params: URLSearchParams): MemberListQuery | undefined {
+  const sort = params.get('sort')
+  const dir = params.get('dir')
+  const q = params.get('q')
+  const page = parseInt(params.get('page') ?? '')
+
+  const query: MemberListQuery = {
+    sort: isMemberSortKey(sort) ? sort : undefined,
+    dir: dir === 'asc' || dir === 'desc' ? dir : undefined,
+    q: q || undefined,
+    shame: params.get('shame') === '1' || undefined,
+    page: page > 1 ? page : undefined
+  }
+
+  return Object.values(query).some(value => value !== undefined) ? query : undefined
+}
+
+function appendMemberListQuery(params: URLSearchParams, query: MemberListQuery) {
+  if (query.sort) params.set('sort', query.sort)
+  if (query.dir) params.set('dir', query.dir)
+  if (query.q) params.set('q', query.q)
+  if (query.shame) params.set('shame', '1')
+  if (query.page && query.page > 1) params.set('page', String(query.page))
+}
+
+// Null for a malformed escape such as a stray %, which matches no route
+function decodeSegments(pathname: string): string[] | null {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse /servers/:serverId/clubs/:clubId/(members|history|stats|activity|settings)?modal=...&sort=... into a route.
+ * /servers/:serverId/(stats|calendar|duplicates|trash|activity|admin) are the server-wide views, /servers/:serverId/members/:memberId a member profile.
+ * Anything that doesn't match degrades to the closest valid prefix.
+ */
+export function parseRoute(pathname: string, search: string): DashboardRoute {
+  const segments = decodeSegments(pathname)
+  if (!segments) return { view: 'overview' }
+
+  const [serversSegment, serverId, clubsSegment, clubId, viewSegment] = segments
+
+  const params = new URLSearchParams(search)
+  const modal = params.get('modal')
+  const route: DashboardRoute = {
+    view: 'overview',
+    modal: isRouteModal(modal) ? modal : undefined
+  }
+
+  if (serversSegment !== 'servers' || !serverId) return route
+  route.serverId = serverId
+
+  if (isServerView(clubsSegment)) {
+    route.view = clubsSegment
+    return route
+  }
+
+  if (clubsSegment === 'members') {
+    const memberId = parseInt(clubId ?? '')
+    if (!isNaN(memberId)) route.memberId = memberId
+    return route
+  }
+
+  if (clubsSegment !== 'clubs' || !clubId) return route
+  route.clubId = clubId
+
+  if (isClubView(viewSegment)) route.view = viewSegment
+  route.members = parseMemberListQuery(params)
+  return route
+}
+
+export function buildPath(route: DashboardRoute): string {
+  let path = '/'
+
+  if (route.serverId) {
+    path = `/servers/${encodeURIComponent(route.serverId)}`
+
+    if (route.clubId) {
+      path += `/clubs/${encodeURIComponent(route.clubId)}`
+      if (route.view !== 'overview') path += `/${route.view}`
+    } else if (route.memberId !== undefined) {
+      path += `/members/${route.memberId}`
+    } else if (isServerView(route.view)) {
+      path += `/${route.view}`
+    }
+  }
+
+  const params = new URLSearchParams()
+  if (route.modal) params.set('modal', route.modal)
+  if (route.clubId && route.members) appendMemberListQuery(params, route.members)
+
+  const search = params.toString()
+  return search ? `${path}?${search}` : path
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react'
+import { buildPath, parseRoute } from './routes'
+import type { DashboardRoute } from './routes'
+
+interface NavigateOptions {
+  replace?: boolean
+}
+
+const readLocation = () => parseRoute(window.location.pathname, window.location.search)
+
+/**
+ * Keeps the dashboard route in sync with the browser URL, including back/forward.
+ */
+export function useRoute() {
+  const [route, setRoute] = useState<DashboardRoute>(readLocation)
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(readLocation())
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const navigate = useCallback((next: DashboardRoute, options: NavigateOptions = {}) => {
+    const path = buildPath(next)
+    if (path !== window.location.pathname + window.location.search) {
+      if (options.replace) {
+        window.history.replaceState(null, '', path)
+      } else {
+        window.history.pushState(null, '', path)
+      }
+    }
+    setRoute(next)
+  }, [])
+
+  return { route, navigate }
+}
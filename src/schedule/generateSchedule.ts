@@ -0,0 +1,64 @@
+import type { Cadence } from '../types'
+import { addDays, formatDate, parseDate } from './dates'
+
+export type ScheduleUnit = 'chapters' | 'pages'
+
+export interface ScheduleOptions {
+  unit: ScheduleUnit
+  total: number // Chapter or page count of the book
+  startDate: string // YYYY-MM-DD
+  dueDate: string // YYYY-MM-DD
+  cadence: Cadence
+}
+
+export interface ProposedDiscussion {
+  title: string
+  date: string // YYYY-MM-DD
+}
+
+export const CADENCE_DAYS: Record<Cadence, number> = {
+  weekly: 7,
+  biweekly: 14
+}
+
+const formatRange = (unit: ScheduleUnit, first: number, last: number) => {
+  const label = unit === 'chapters' ? 'Chapter' : 'Page'
+  return first === last ? `${label} ${first}` : `${label}s ${first}–${last}`
+}
+
+/**
+ * Propose one discussion per cadence step between the start and due dates, with the
+ * final one on the due date, splitting the book's chapters or pages as evenly as possible.
+ */
+export function generateSchedule({ unit, total, startDate, dueDate, cadence }: ScheduleOptions): ProposedDiscussion[] {
+  if (!startDate || !dueDate || !Number.isInteger(total) || total < 1) return []
+
+  const start = parseDate(startDate)
+  const due = parseDate(dueDate)
+  if (due <= start) return []
+
+  const dates: Date[] = []
+  for (let date = addDays(start, CADENCE_DAYS[cadence]); date < due; date = addDays(date, CADENCE_DAYS[cadence])) {
+    dates.push(date)
+  }
+  dates.push(due)
+
+  // Never propose more discussions than there are chapters/pages to cover; keep the latest ones
+  const meetingDates = dates.slice(-total)
+
+  const count = meetingDates.length
+  const baseSize = Math.floor(total / count)
+  const remainder = total % count
+
+  let next = 1
+  return meetingDates.map((date, index) => {
+    // Earlier discussions absorb the remainder, one extra unit each
+    const size = baseSize + (index < remainder ? 1 : 0)
+    const first = next
+    next += size
+    return {
+      title: formatRange(unit, first, first + size - 1),
+      date: formatDate(date)
+    }
+  })
+}
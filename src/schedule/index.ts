@@ -0,0 +1,3 @@
+export { CADENCE_DAYS, generateSchedule } from './generateSchedule'
+export { addDays, formatDate, parseDate } from './dates'
+export type { ProposedDiscussion, ScheduleOptions, ScheduleUnit } from './generateSchedule'
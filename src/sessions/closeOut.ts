@@ -0,0 +1,63 @@
+import type { ShameListChange } from '../api'
+import type { Club, Member, SessionOutcome } from '../types'
+
+export type SessionPoints = Record<SessionOutcome, number>
+
+// Starting points per outcome for a club's close-out, from its points per finished book
+export const getSessionPoints = (pointsPerBook: number): SessionPoints => ({
+  finished: pointsPerBook,
+  partial: Math.round(pointsPerBook / 2),
+  not_started: 0
+})
+
+// Best outcome first
+export const SESSION_OUTCOMES: { value: SessionOutcome; label: string }[] = [
+  { value: 'finished', label: 'Finished' },
+  { value: 'partial', label: 'Partial' },
+  { value: 'not_started', label: 'Not Started' }
+]
+
+const meetsThreshold = (outcome: SessionOutcome, threshold: SessionOutcome) => {
+  const rank = (value: SessionOutcome) => SESSION_OUTCOMES.findIndex(option => option.value === value)
+  return rank(outcome) <= rank(threshold)
+}
+
+export interface CloseOutResult {
+  member_id: Member['id']
+  outcome: SessionOutcome
+  points: number
+  books_read_increment: number
+  // Omitted when the member's shame list status already matches the outcome
+  shame_list?: ShameListChange
+}
+
+/**
+ * Work out what closing the active session does to each member: finishers get a
+ * book, members at or above the club's shame threshold come off the shame list,
+ * and everyone below it goes on.
+ */
+export function planCloseOut(
+  club: Club,
+  outcomes: Record<Member['id'], SessionOutcome>,
+  points: SessionPoints,
+  shameThreshold: SessionOutcome = 'finished'
+): CloseOutResult[] {
+  return club.members.map(member => {
+    const outcome = outcomes[member.id] ?? 'not_started'
+    const finished = outcome === 'finished'
+    const safe = meetsThreshold(outcome, shameThreshold)
+    const onShameList = club.shame_list.includes(member.id)
+
+    let shameList: ShameListChange | undefined
+    if (safe && onShameList) shameList = 'remove'
+    if (!safe && !onShameList) shameList = 'add'
+
+    return {
+      member_id: member.id,
+      outcome,
+      points: points[outcome],
+      books_read_increment: finished ? 1 : 0,
+      shame_list: shameList
+    }
+  })
+}
@@ -0,0 +1,2 @@
+export { getSessionPoints, SESSION_OUTCOMES, planCloseOut } from './closeOut'
+export type { CloseOutResult, SessionPoints } from './closeOut'
@@ -0,0 +1,11 @@
+export {
+  getUniqueMembers,
+  getLeaderboard,
+  countByMonth,
+  getBooksPerMonth,
+  getAverageSessionDays,
+  getDiscussionCount,
+  getShameTimeline,
+  getShameFrequency
+} from './statistics'
+export type { ChartDatum, LeaderboardKey, MemberCount } from './statistics'
@@ -0,0 +1,100 @@
+import { parseDate } from '../schedule'
+import type { Club, Member, Session } from '../types'
+
+export interface ChartDatum {
+  label: string
+  value: number
+}
+
+export interface MemberCount {
+  member: Member
+  count: number
+}
+
+export type LeaderboardKey = 'points' | 'books_read'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Members can belong to several clubs on a server; count each of them once
+export function getUniqueMembers(clubs: Club[]): Member[] {
+  const byId = new Map<Member['id'], Member>()
+  clubs.forEach(club => club.members.forEach(member => byId.set(member.id, member)))
+  return [...byId.values()]
+}
+
+export function getLeaderboard(members: Member[], key: LeaderboardKey, limit = 10): Member[] {
+  return [...members]
+    .sort((a, b) => b[key] - a[key] || a.name.localeCompare(b.name))
+    .slice(0, limit)
+}
+
+// Calendar day of a date or timestamp; new Date('YYYY-MM-DD') would be UTC midnight and can fall in the previous month
+const toLocalDate = (value: string) => parseDate(value.slice(0, 10))
+
+/**
+ * Bucket dates into the last `months` calendar months, oldest first,
+ * including empty months so charts keep an even time axis.
+ */
+export function countByMonth(dates: string[], months = 12, now = new Date()): ChartDatum[] {
+  const buckets: ChartDatum[] = []
+  const keys: string[] = []
+
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const month = new Date(now.getFullYear(), now.getMonth() - offset, 1)
+    keys.push(`${month.getFullYear()}-${month.getMonth()}`)
+    buckets.push({ label: month.toLocaleDateString(undefined, { month: 'short' }), value: 0 })
+  }
+
+  dates.forEach(dateString => {
+    const date = toLocalDate(dateString)
+    const index = keys.indexOf(`${date.getFullYear()}-${date.getMonth()}`)
+    if (index !== -1) buckets[index].value++
+  })
+
+  return buckets
+}
+
+// Every closed session is one book the club got through
+export function getBooksPerMonth(sessions: Session[], months = 12): ChartDatum[] {
+  return countByMonth(sessions.map(session => session.due_date), months)
+}
+
+// Days between a session being created and its due date; null when no session has a creation date
+export function getAverageSessionDays(sessions: Session[]): number | null {
+  const lengths = sessions
+    .filter(session => session.created_at)
+    .map(session => (new Date(session.due_date).getTime() - new Date(session.created_at!).getTime()) / DAY_MS)
+
+  if (lengths.length === 0) return null
+  return Math.round(lengths.reduce((sum, days) => sum + days, 0) / lengths.length)
+}
+
+export function getDiscussionCount(sessions: Session[]): number {
+  return sessions.reduce((sum, session) => sum + session.discussions.length, 0)
+}
+
+// Shame list size at the close of each session, oldest first
+export function getShameTimeline(sessions: Session[], limit = 12): ChartDatum[] {
+  return sessions
+    .filter(session => session.shame_list)
+    .sort((a, b) => toLocalDate(a.due_date).getTime() - toLocalDate(b.due_date).getTime())
+    .slice(-limit)
+    .map(session => ({
+      label: toLocalDate(session.due_date).toLocaleDateString(undefined, { month: 'short', year: '2-digit' }),
+      value: session.shame_list!.length
+    }))
+}
+
+// How many closed sessions each member ended up on the shame list for, most often first
+export function getShameFrequency(sessions: Session[], members: Member[], limit = 10): MemberCount[] {
+  const counts = new Map<Member['id'], number>()
+  sessions.forEach(session =>
+    session.shame_list?.forEach(memberId => counts.set(memberId, (counts.get(memberId) ?? 0) + 1))
+  )
+
+  return members
+    .filter(member => counts.has(member.id))
+    .map(member => ({ member, count: counts.get(member.id)! }))
+    .sort((a, b) => b.count - a.count || a.member.name.localeCompare(b.member.name))
+    .slice(0, limit)
+}
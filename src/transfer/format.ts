@@ -0,0 +1,246 @@
+import { parseCsv, toCsv } from './csv'
+import type { Club, Member, Server, Session } from '../types'
+
+// Bump when the JSON layout changes in a way older dashboards can't read
+export const EXPORT_VERSION = 1
+
+export interface DashboardExport {
+  version: number
+  exported_at: string
+  server: Pick<Server, 'id' | 'name'>
+  clubs: Club[]
+}
+
+export type ExportFormat = 'json' | 'members-csv' | 'sessions-csv'
+
+// Members without an id are created on import, and carry their own shame list status since the club's list holds ids
+export type ImportMember = Pick<Member, 'name' | 'points' | 'books_read'> & {
+  id?: Member['id']
+  on_shame_list?: boolean
+}
+
+/**
+ * A club as read from an import file. Sessions are left undefined when the
+ * file format doesn't carry them (members CSV), so they are not touched.
+ */
+export interface ImportClub {
+  id: Club['id']
+  name: Club['name']
+  discord_channel?: Club['discord_channel']
+  members: ImportMember[]
+  shame_list: Club['shame_list']
+  active_session?: Club['active_session']
+  past_sessions?: Club['past_sessions']
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportFormatError'
+  }
+}
+
+const MEMBERS_CSV_HEADER = ['club_id', 'club_name', 'member_id', 'name', 'points', 'books_read', 'on_shame_list']
+
+const SESSIONS_CSV_HEADER = [
+  'club_id', 'club_name', 'session_id', 'status', 'title', 'author', 'edition',
+  'year', 'isbn', 'page_count', 'due_date', 'discussions'
+]
+
+export function buildExport(server: Pick<Server, 'id' | 'name'>, clubs: Club[]): DashboardExport {
+  return {
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    server: { id: server.id, name: server.name },
+    clubs
+  }
+}
+
+export function toMembersCsv(clubs: Club[]): string {
+  return toCsv([
+    MEMBERS_CSV_HEADER,
+    ...clubs.flatMap(club =>
+      club.members.map(member => [
+        club.id,
+        club.name,
+        member.id,
+        member.name,
+        member.points,
+        member.books_read,
+        club.shame_list.includes(member.id) ? 'yes' : 'no'
+      ])
+    )
+  ])
+}
+
+export function toSessionsCsv(clubs: Club[]): string {
+  return toCsv([
+    SESSIONS_CSV_HEADER,
+    ...clubs.flatMap(club =>
+      [
+        ...(club.active_session ? [{ session: club.active_session, status: 'active' }] : []),
+        ...club.past_sessions.map(session => ({ session, status: 'past' }))
+      ].map(({ session, status }) => [
+        club.id,
+        club.name,
+        session.id,
+        status,
+        session.book.title,
+        session.book.author,
+        session.book.edition,
+        session.book.year,
+        session.book.isbn,
+        session.book.page_count,
+        session.due_date,
+        session.discussions.length
+      ])
+    )
+  ])
+}
+
+// Numbers are kept as NaN when unparseable so validation can point at the bad value
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value))
+
+function parseMembersCsv(text: string): ImportClub[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    throw new ImportFormatError('File is empty')
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase())
+  const missing = MEMBERS_CSV_HEADER.filter(column => column !== 'member_id' && !columns.includes(column))
+  if (missing.length > 0) {
+    throw new ImportFormatError(`Members CSV is missing columns: ${missing.join(', ')}`)
+  }
+
+  const cell = (row: string[], column: string) => (row[columns.indexOf(column)] ?? '').trim()
+  const clubs = new Map<string, ImportClub>()
+
+  rows.forEach(row => {
+    const clubId = cell(row, 'club_id')
+    if (!clubs.has(clubId)) {
+      clubs.set(clubId, { id: clubId, name: cell(row, 'club_name'), members: [], shame_list: [] })
+    }
+    const club = clubs.get(clubId)!
+    const memberId = cell(row, 'member_id')
+
+    const onShameList = ['yes', 'true', '1'].includes(cell(row, 'on_shame_list').toLowerCase())
+
+    const member: ImportMember = {
+      id: memberId ? toNumber(memberId) : undefined,
+      name: cell(row, 'name'),
+      points: toNumber(cell(row, 'points')),
+      books_read: toNumber(cell(row, 'books_read'))
+    }
+    if (member.id === undefined) {
+      member.on_shame_list = onShameList
+    } else if (onShameList) {
+      club.shame_list.push(member.id)
+    }
+    club.members.push(member)
+  })
+
+  return [...clubs.values()]
+}
+
+// Shape checks only; validateImport reports the values. Anything else would fail later as a TypeError
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isOptional = (value: unknown, type: 'string' | 'number') => value === undefined || value === null || typeof value === type
+
+function readJsonMember(value: unknown, where: string): ImportMember {
+  if (
+    !isRecord(value) ||
+    typeof value.name !== 'string' ||
+    typeof value.points !== 'number' ||
+    typeof value.books_read !== 'number' ||
+    !(value.id === undefined || typeof value.id === 'number')
+  ) {
+    throw new ImportFormatError(`${where} is not a valid member entry`)
+  }
+  return value as ImportMember
+}
+
+function readJsonSession(value: unknown, where: string): Session {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    !isRecord(value.book) ||
+    !isOptional(value.book.title, 'string') ||
+    !isOptional(value.book.author, 'string') ||
+    !isOptional(value.due_date, 'string') ||
+    !(value.discussions === undefined || Array.isArray(value.discussions))
+  ) {
+    throw new ImportFormatError(`${where} is not a valid session entry`)
+  }
+
+  const discussions = (value.discussions ?? []) as unknown[]
+  discussions.forEach((discussion, index) => {
+    if (!isRecord(discussion) || !isOptional(discussion.title, 'string') || !isOptional(discussion.date, 'string')) {
+      throw new ImportFormatError(`${where} › discussion ${index + 1} is not a valid discussion entry`)
+    }
+  })
+
+  return { ...value, discussions } as Session
+}
+
+function readJsonClub(value: unknown, index: number): ImportClub {
+  const where = `Club ${index + 1}`
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    !isOptional(value.discord_channel, 'string') ||
+    !(value.members === undefined || Array.isArray(value.members)) ||
+    !(value.shame_list === undefined || (Array.isArray(value.shame_list) && value.shame_list.every(id => typeof id === 'number'))) ||
+    !(value.past_sessions === undefined || Array.isArray(value.past_sessions))
+  ) {
+    throw new ImportFormatError(`${where} is not a valid club entry`)
+  }
+
+  const clubWhere = value.name.trim() || where
+  const members = (value.members ?? []) as unknown[]
+  const pastSessions = value.past_sessions as unknown[] | undefined
+
+  return {
+    id: value.id,
+    name: value.name,
+    discord_channel: value.discord_channel as Club['discord_channel'] | undefined,
+    members: members.map((member, memberIndex) => readJsonMember(member, `${clubWhere} › member ${memberIndex + 1}`)),
+    shame_list: (value.shame_list ?? []) as Club['shame_list'],
+    active_session: value.active_session === undefined || value.active_session === null
+      ? null
+      : readJsonSession(value.active_session, `${clubWhere} › active session`),
+    past_sessions: pastSessions?.map((session, sessionIndex) => readJsonSession(session, `${clubWhere} › past session ${sessionIndex + 1}`))
+  }
+}
+
+function parseJsonExport(text: string): ImportClub[] {
+  let data: Partial<DashboardExport>
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ImportFormatError('File is not valid JSON')
+  }
+
+  if (typeof data.version !== 'number') {
+    throw new ImportFormatError('JSON file has no export version; was it exported from this dashboard?')
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new ImportFormatError(`Export version ${data.version} is newer than this dashboard supports (${EXPORT_VERSION})`)
+  }
+  if (!Array.isArray(data.clubs)) {
+    throw new ImportFormatError('JSON file has no clubs')
+  }
+
+  return (data.clubs as unknown[]).map(readJsonClub)
+}
+
+/**
+ * Read an export file back into clubs. JSON carries everything;
+ * a members CSV only carries members and shame list status.
+ */
+export function parseImportFile(fileName: string, text: string): ImportClub[] {
+  return fileName.toLowerCase().endsWith('.csv') ? parseMembersCsv(text) : parseJsonExport(text)
+}
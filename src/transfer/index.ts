@@ -0,0 +1,14 @@
+export {
+  EXPORT_VERSION,
+  ImportFormatError,
+  buildExport,
+  toMembersCsv,
+  toSessionsCsv,
+  parseImportFile
+} from './format'
+export type { DashboardExport, ExportFormat, ImportClub, ImportMember } from './format'
+export { validateImport } from './validate'
+export type { ImportIssue } from './validate'
+export { planImport, applyImport } from './plan'
+export type { ImportAction, ImportChange, ImportChangeResult, ImportChangeStatus, ImportEntity } from './plan'
+export { downloadFile } from './download'
@@ -0,0 +1,397 @@
+import { api, ApiError, getErrorMessage } from '../api'
+import type { ImportClub, ImportMember } from './format'
+import type { Book, Club, Member, Server, Session } from '../types'
+
+export type ImportAction = 'create' | 'update' | 'join' | 'skip'
+
+export type ImportEntity = 'club' | 'member' | 'shame_list' | 'session' | 'discussion'
+
+export interface ImportChange {
+  key: string
+  clubName: string
+  entity: ImportEntity
+  action: ImportAction
+  label: string
+  details: string[] // Field-level "before → after" lines for the preview
+  apply?: () => Promise<unknown> // Missing on skipped changes
+}
+
+export type ImportChangeStatus = 'done' | 'skipped' | 'failed'
+
+export interface ImportChangeResult {
+  change: ImportChange
+  status: ImportChangeStatus
+  message?: string
+}
+
+const IMPORT_POINTS_REASON = 'Adjusted by data import'
+
+const BOOK_FIELDS: (keyof Book)[] = ['title', 'author', 'edition', 'year', 'isbn', 'page_count', 'cover_url']
+
+const describeChange = (label: string, before: unknown, after: unknown) =>
+  `${label}: ${before ?? '—'} → ${after ?? '—'}`
+
+// A member as it appears across the whole import; exports list shared members under every club they belong to
+interface PlannedMember {
+  existing?: Member
+  createdId?: Member['id'] // Set once the create change has run
+}
+
+// Members without a known id are matched on their name, so a new member listed under two clubs is created once
+const importMemberKey = (member: ImportMember) =>
+  member.id !== undefined ? `id:${member.id}` : `name:${member.name.trim().toLowerCase()}`
+
+/**
+ * Changes for one member listed under one club. The member's own fields (and a
+ * new member's creation) are planned under the first club that lists them;
+ * every other club only adds a membership.
+ */
+function planMember(
+  serverId: Server['id'],
+  club: ImportClub,
+  member: ImportMember,
+  current: Club | undefined,
+  planned: PlannedMember,
+  isFirstListing: boolean
+): ImportChange[] {
+  const key = `${club.id}:member:${importMemberKey(member)}`
+  const onShameList = member.id !== undefined ? club.shame_list.includes(member.id) : !!member.on_shame_list
+  const { existing } = planned
+
+  // Unknown members are created straight into their first club, shame list status included
+  if (!existing) {
+    if (isFirstListing) {
+      return [{
+        key,
+        clubName: club.name,
+        entity: 'member',
+        action: 'create',
+        label: member.name,
+        details: [`${member.points} pts`, `${member.books_read} books read`, ...(onShameList ? ['on shame list'] : [])],
+        apply: async () => {
+          const created = await api.saveClubMember({
+            club_id: club.id,
+            member: { name: member.name, points: member.points, books_read: member.books_read },
+            shame_list: onShameList ? 'add' : undefined
+          })
+          planned.createdId = created.id
+        }
+      }]
+    }
+
+    return [{
+      key,
+      clubName: club.name,
+      entity: 'member',
+      action: 'join',
+      label: member.name,
+      details: [`joins ${club.name} once created`, ...(onShameList ? ['on shame list'] : [])],
+      apply: async () => {
+        const memberId = planned.createdId
+        if (memberId === undefined) throw new Error(`${member.name} could not be created, so they can't join ${club.name}`)
+        await api.addMemberToClub({ club_id: club.id, member_id: memberId })
+        if (onShameList) await api.updateClub({ id: club.id, server_id: serverId, shame_list_add: [memberId] })
+      }
+    }]
+  }
+
+  const changes: ImportChange[] = []
+
+  if (isFirstListing) {
+    const details: string[] = []
+    if (member.name !== existing.name) details.push(describeChange('name', existing.name, member.name))
+    if (member.books_read !== existing.books_read) details.push(describeChange('books read', existing.books_read, member.books_read))
+    if (member.points !== existing.points) details.push(describeChange('points', existing.points, member.points))
+
+    if (details.length > 0) {
+      changes.push({
+        key: `member:${existing.id}`,
+        clubName: club.name,
+        entity: 'member',
+        action: 'update',
+        label: member.name,
+        details,
+        apply: async () => {
+          if (member.name !== existing.name || member.books_read !== existing.books_read) {
+            await api.updateMember({ id: existing.id, name: member.name, books_read: member.books_read })
+          }
+          // Points live in the ledger, so the difference is recorded as a single entry
+          if (member.points !== existing.points) {
+            await api.createPointsEntry({
+              member_id: existing.id,
+              amount: member.points - existing.points,
+              reason: IMPORT_POINTS_REASON
+            })
+          }
+        }
+      })
+    }
+  }
+
+  if (!current?.members.some(clubMember => clubMember.id === existing.id)) {
+    changes.push({
+      key,
+      clubName: club.name,
+      entity: 'member',
+      action: 'join',
+      label: member.name,
+      details: [`joins ${club.name}`],
+      apply: () => api.addMemberToClub({ club_id: club.id, member_id: existing.id })
+    })
+  }
+
+  return changes
+}
+
+function planActiveSession(club: ImportClub, current: Club | undefined): ImportChange[] {
+  const session = club.active_session
+  if (!session) return []
+
+  const currentSession = current?.active_session
+  const key = `${club.id}:session:${session.id}`
+
+  if (!currentSession) {
+    return [{
+      key,
+      clubName: club.name,
+      entity: 'session',
+      action: 'create',
+      label: session.book.title,
+      details: [`due ${new Date(session.due_date).toLocaleDateString()}`, `${session.discussions.length} discussions`],
+      apply: () =>
+        api.createSession({
+          club_id: club.id,
+          book: session.book,
+          due_date: session.due_date,
+          discussions: session.discussions.map(({ title, date, location }) => ({ title, date, location }))
+        })
+    }]
+  }
+
+  if (currentSession.id !== session.id) {
+    return [{
+      key,
+      clubName: club.name,
+      entity: 'session',
+      action: 'skip',
+      label: session.book.title,
+      details: [`${club.name} is already reading ${currentSession.book.title}; close that session first`]
+    }]
+  }
+
+  return [...planSessionUpdate(club, currentSession, session), ...planDiscussions(club, currentSession, session)]
+}
+
+function planSessionUpdate(club: ImportClub, current: Session, session: Session): ImportChange[] {
+  const details = BOOK_FIELDS
+    .filter(field => (session.book[field] ?? undefined) !== (current.book[field] ?? undefined))
+    .map(field => describeChange(field.replace('_', ' '), current.book[field], session.book[field]))
+  if (session.due_date !== current.due_date) details.push(describeChange('due date', current.due_date, session.due_date))
+
+  if (details.length === 0) return []
+
+  return [{
+    key: `${club.id}:session:${session.id}`,
+    clubName: club.name,
+    entity: 'session',
+    action: 'update',
+    label: session.book.title,
+    details,
+    apply: () => api.updateSession({ id: session.id, book: session.book, due_date: session.due_date })
+  }]
+}
+
+function planDiscussions(club: ImportClub, current: Session, session: Session): ImportChange[] {
+  return session.discussions.flatMap((discussion): ImportChange[] => {
+    const existing = current.discussions.find(currentDiscussion => currentDiscussion.id === discussion.id)
+    const key = `${club.id}:discussion:${discussion.id}`
+
+    if (!existing) {
+      return [{
+        key,
+        clubName: club.name,
+        entity: 'discussion',
+        action: 'create',
+        label: discussion.title,
+        details: [new Date(discussion.date).toLocaleDateString(), ...(discussion.location ? [discussion.location] : [])],
+        apply: () =>
+          api.createDiscussion({
+            session_id: current.id,
+            title: discussion.title,
+            date: discussion.date,
+            location: discussion.location
+          })
+      }]
+    }
+
+    const details: string[] = []
+    if (discussion.title !== existing.title) details.push(describeChange('title', existing.title, discussion.title))
+    if (discussion.date !== existing.date) details.push(describeChange('date', existing.date, discussion.date))
+    if ((discussion.location ?? '') !== (existing.location ?? '')) {
+      details.push(describeChange('location', existing.location, discussion.location))
+    }
+    if (details.length === 0) return []
+
+    return [{
+      key,
+      clubName: club.name,
+      entity: 'discussion',
+      action: 'update',
+      label: discussion.title,
+      details,
+      apply: () =>
+        api.updateDiscussion({
+          id: existing.id,
+          title: discussion.title,
+          date: discussion.date,
+          location: discussion.location ?? null
+        })
+    }]
+  })
+}
+
+// Ids that are not on this server may still belong to a member on another one; only a 404 makes them new
+async function loadKnownMembers(clubs: ImportClub[], currentClubs: Club[]): Promise<Map<Member['id'], Member>> {
+  const knownMembers = new Map<Member['id'], Member>()
+  currentClubs.forEach(club => club.members.forEach(member => knownMembers.set(member.id, member)))
+
+  const unknownIds = new Set(
+    clubs.flatMap(club => club.members.flatMap(member =>
+      member.id !== undefined && !knownMembers.has(member.id) ? [member.id] : []
+    ))
+  )
+
+  await Promise.all([...unknownIds].map(async id => {
+    try {
+      knownMembers.set(id, await api.getMember(id))
+    } catch (err: unknown) {
+      if (!(err instanceof ApiError && err.status === 404)) throw err
+    }
+  }))
+
+  return knownMembers
+}
+
+/**
+ * Diff an import against the server's current clubs and turn every difference
+ * into one Edge Function change. Imports only add and update; nothing that is
+ * missing from the file gets deleted.
+ */
+export async function planImport(server: Pick<Server, 'id'>, clubs: ImportClub[], currentClubs: Club[]): Promise<ImportChange[]> {
+  const knownMembers = await loadKnownMembers(clubs, currentClubs)
+  const plannedMembers = new Map<string, PlannedMember>()
+
+  return clubs.flatMap(club => {
+    const current = currentClubs.find(currentClub => currentClub.id === club.id)
+    const changes: ImportChange[] = []
+
+    if (!current) {
+      changes.push({
+        key: `${club.id}:club`,
+        clubName: club.name,
+        entity: 'club',
+        action: 'create',
+        label: club.name,
+        details: club.discord_channel ? [`#${club.discord_channel}`] : [],
+        apply: () =>
+          api.createClub({ id: club.id, name: club.name, server_id: server.id, discord_channel: club.discord_channel || null })
+      })
+    } else if (club.name !== current.name || (club.discord_channel !== undefined && club.discord_channel !== current.discord_channel)) {
+      changes.push({
+        key: `${club.id}:club`,
+        clubName: club.name,
+        entity: 'club',
+        action: 'update',
+        label: club.name,
+        details: [
+          ...(club.name !== current.name ? [describeChange('name', current.name, club.name)] : []),
+          ...(club.discord_channel !== undefined && club.discord_channel !== current.discord_channel
+            ? [describeChange('discord channel', current.discord_channel, club.discord_channel)]
+            : [])
+        ],
+        apply: () =>
+          api.updateClub({ id: club.id, server_id: server.id, name: club.name, discord_channel: club.discord_channel })
+      })
+    }
+
+    club.members.forEach(member => {
+      const memberKey = importMemberKey(member)
+      const planned = plannedMembers.get(memberKey)
+      if (planned) {
+        changes.push(...planMember(server.id, club, member, current, planned, false))
+      } else {
+        const firstListing: PlannedMember = { existing: member.id !== undefined ? knownMembers.get(member.id) : undefined }
+        plannedMembers.set(memberKey, firstListing)
+        changes.push(...planMember(server.id, club, member, current, firstListing, true))
+      }
+    })
+
+    // Shame list deltas only cover members that already exist; new members carry their own status
+    const currentShameList = current?.shame_list ?? []
+    const existingIds = club.members.flatMap(member =>
+      member.id !== undefined && knownMembers.has(member.id) ? [member.id] : []
+    )
+    const shameAdd = existingIds.filter(id => club.shame_list.includes(id) && !currentShameList.includes(id))
+    const shameRemove = existingIds.filter(id => !club.shame_list.includes(id) && currentShameList.includes(id))
+    const memberName = (id: Member['id']) => knownMembers.get(id)?.name ?? `#${id}`
+
+    if (shameAdd.length > 0 || shameRemove.length > 0) {
+      changes.push({
+        key: `${club.id}:shame_list`,
+        clubName: club.name,
+        entity: 'shame_list',
+        action: 'update',
+        label: 'Shame list',
+        details: [
+          ...shameAdd.map(id => `+ ${memberName(id)}`),
+          ...shameRemove.map(id => `− ${memberName(id)}`)
+        ],
+        apply: () =>
+          api.updateClub({ id: club.id, server_id: server.id, shame_list_add: shameAdd, shame_list_remove: shameRemove })
+      })
+    }
+
+    changes.push(...planActiveSession(club, current))
+
+    // No Edge Function writes reading history directly, so past sessions can only be reported
+    const newPastSessions = (club.past_sessions ?? []).filter(
+      session => !current?.past_sessions.some(pastSession => pastSession.id === session.id)
+    )
+    if (newPastSessions.length > 0) {
+      changes.push({
+        key: `${club.id}:past_sessions`,
+        clubName: club.name,
+        entity: 'session',
+        action: 'skip',
+        label: `${newPastSessions.length} past sessions`,
+        details: ['Reading history can only be created by closing a session', ...newPastSessions.map(session => session.book.title)]
+      })
+    }
+
+    return changes
+  })
+}
+
+// Apply changes in order, one at a time, so clubs exist before their members and sessions
+export async function applyImport(
+  changes: ImportChange[],
+  onProgress?: (completed: number) => void
+): Promise<ImportChangeResult[]> {
+  const results: ImportChangeResult[] = []
+
+  for (const change of changes) {
+    if (!change.apply) {
+      results.push({ change, status: 'skipped', message: change.details[0] })
+    } else {
+      try {
+        await change.apply()
+        results.push({ change, status: 'done' })
+      } catch (err: unknown) {
+        results.push({ change, status: 'failed', message: getErrorMessage(err, 'Request failed') })
+      }
+    }
+    onProgress?.(results.length)
+  }
+
+  return results
+}
@@ -0,0 +1,83 @@
+import type { ImportClub, ImportMember } from './format'
+import type { Session } from '../types'
+
+export interface ImportIssue {
+  where: string
+  message: string
+}
+
+const isNonNegativeInteger = (value: number) => Number.isInteger(value) && value >= 0
+const isValidDate = (value: string | undefined) => !!value && !isNaN(new Date(value).getTime())
+
+function validateMember(member: ImportMember, where: string): ImportIssue[] {
+  const issues: ImportIssue[] = []
+
+  // Same rules MemberModal enforces
+  if (!member.name?.trim()) issues.push({ where, message: 'Member name is required' })
+  if (!isNonNegativeInteger(member.points)) issues.push({ where, message: 'Points must be a non-negative number' })
+  if (!isNonNegativeInteger(member.books_read)) issues.push({ where, message: 'Books read must be a non-negative number' })
+  if (member.id !== undefined && !isNonNegativeInteger(member.id)) issues.push({ where, message: 'Member id must be a whole number' })
+
+  return issues
+}
+
+function validateSession(session: Session, where: string): ImportIssue[] {
+  const issues: ImportIssue[] = []
+
+  if (!session.id) issues.push({ where, message: 'Session id is required' })
+  if (!session.book?.title?.trim() || !session.book?.author?.trim()) {
+    issues.push({ where, message: 'Title and Author are required' })
+  }
+  if (!isValidDate(session.due_date)) issues.push({ where, message: 'Due date is missing or invalid' })
+
+  const discussions = session.discussions ?? []
+  discussions.forEach((discussion, index) => {
+    const discussionWhere = `${where} › discussion ${index + 1}`
+    if (!discussion.title?.trim()) issues.push({ where: discussionWhere, message: 'Discussion title is required' })
+    if (!isValidDate(discussion.date)) issues.push({ where: discussionWhere, message: 'Discussion date is missing or invalid' })
+  })
+
+  return issues
+}
+
+/**
+ * Check every row of an import before anything is previewed or sent.
+ * An empty result means the file can be applied.
+ */
+export function validateImport(clubs: ImportClub[]): ImportIssue[] {
+  const issues: ImportIssue[] = []
+  const clubIds = new Set<string>()
+
+  clubs.forEach((club, clubIndex) => {
+    const clubWhere = club.name?.trim() || `Club ${clubIndex + 1}`
+
+    if (!club.id?.trim()) issues.push({ where: clubWhere, message: 'Club id is required' })
+    if (!club.name?.trim()) issues.push({ where: clubWhere, message: 'Club name is required' })
+    if (clubIds.has(club.id)) issues.push({ where: clubWhere, message: `Club id "${club.id}" appears more than once` })
+    clubIds.add(club.id)
+
+    const memberIds = new Set<number>()
+    club.members.forEach((member, memberIndex) => {
+      const memberWhere = `${clubWhere} › ${member.name?.trim() || `member ${memberIndex + 1}`}`
+      issues.push(...validateMember(member, memberWhere))
+
+      if (member.id !== undefined) {
+        if (memberIds.has(member.id)) issues.push({ where: memberWhere, message: `Member id ${member.id} appears more than once` })
+        memberIds.add(member.id)
+      }
+    })
+
+    club.shame_list.forEach(memberId => {
+      if (!memberIds.has(memberId)) {
+        issues.push({ where: `${clubWhere} › shame list`, message: `Member id ${memberId} is not a member of this club` })
+      }
+    })
+
+    if (club.active_session) issues.push(...validateSession(club.active_session, `${clubWhere} › active session`))
+    club.past_sessions?.forEach((session, index) =>
+      issues.push(...validateSession(session, `${clubWhere} › past session ${index + 1}`))
+    )
+  })
+
+  return issues
+}
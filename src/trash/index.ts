@@ -0,0 +1 @@
+export { TRASH_ENTITIES, getTrashEntity, getDaysUntilPurge } from './trash'
@@ -0,0 +1,17 @@
+import type { Permission } from '../auth'
+import type { TrashEntity, TrashItem } from '../types'
+
+export const TRASH_ENTITIES: { entity: TrashEntity; icon: string; label: string; noun: string; permission: Permission }[] = [
+  { entity: 'club', icon: '📚', label: 'Clubs', noun: 'club', permission: 'manage_clubs' },
+  { entity: 'member', icon: '👤', label: 'Members', noun: 'member', permission: 'manage_members' },
+  { entity: 'discussion', icon: '💬', label: 'Discussions', noun: 'discussion', permission: 'manage_discussions' }
+]
+
+export const getTrashEntity = (entity: TrashEntity) =>
+  TRASH_ENTITIES.find(info => info.entity === entity) ?? TRASH_ENTITIES[0]
+
+// Whole days until the server purges the item, never below zero
+export function getDaysUntilPurge(item: Pick<TrashItem, 'purge_at'>, now = new Date()): number {
+  const msLeft = new Date(item.purge_at).getTime() - now.getTime()
+  return Math.max(0, Math.ceil(msLeft / (24 * 60 * 60 * 1000)))
+}
@@ -2,17 +2,31 @@ export interface Server {
   id: string
   name: string
   clubs: Club[]
+  member_count?: number // Distinct members across the server's clubs, counted by the server function
 }
 
 export interface Club {
   id: string
   name: string
-  discord_channel: string
+  discord_channel: string | null // Null when the club posts nowhere
   server_id: string
   members: Member[]
   active_session: Session | null
   past_sessions: Session[]
   shame_list: number[]
+  rules?: ClubRules // Absent until an admin saves the club's settings; see getClubRules
+}
+
+export type Cadence = 'weekly' | 'biweekly'
+
+// Per-club settings that other workflows use as their defaults
+export interface ClubRules {
+  points_per_book: number // Awarded for a finished book when a session is closed; partial reads get half
+  shame_threshold: SessionOutcome // Lowest outcome that keeps a member off the shame list
+  session_length_days: number // Default due date of a new session, counted from today
+  discussion_cadence: Cadence
+  discussion_location: string // Prefilled on new discussions; empty for none
+  timezone: string // IANA name; Discord reminders go out at 9:00 in this zone
 }
 
 export interface Session {
@@ -20,13 +34,19 @@ export interface Session {
   book: Book
   due_date: string
   discussions: Discussion[]
+  created_at?: string
+  shame_list?: number[] // Snapshot of the club's shame list when the session was closed
 }
 
+// How far a member got with a session's book when it was closed
+export type SessionOutcome = 'finished' | 'partial' | 'not_started'
+
 export interface Discussion {
   id: string
   title: string
   date: string
   location?: string
+  updated_at?: string
 }
 
 export interface Book {
@@ -35,12 +55,61 @@ export interface Book {
   edition?: string
   year?: number
   isbn?: string
+  cover_url?: string
+  page_count?: number
 }
 
 export interface Member {
   id: number
   name: string
-  points: number
+  points: number // Derived server-side from the member's PointsEntry ledger
   books_read: number
   clubs: string[]
-}
\ No newline at end of file
+  discord_id?: string // Set once the member is linked to a Discord account
+}
+
+export interface PointsEntry {
+  id: string
+  member_id: number
+  amount: number // Negative for deductions
+  reason: string
+  session_id?: string
+  author: string // Admin who recorded the entry
+  created_at: string
+  reverses_id?: string // Set on entries that cancel out an earlier one
+}
+
+export type TrashEntity = 'club' | 'member' | 'discussion'
+
+// A soft-deleted record; it can be restored until purge_at, then the server purges it for good
+export interface TrashItem {
+  entity: TrashEntity
+  id: string // The deleted record's id, as a string for every entity
+  name: string
+  server_id: string
+  club_id?: string // Owning club of a discussion; for a member, the one club they were removed from
+  club_name?: string
+  deleted_at: string
+  deleted_by: string // Admin who deleted it
+  purge_at: string
+}
+
+export type AuditEntity = 'club' | 'session' | 'discussion' | 'member'
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'close' | 'join' | 'leave' | 'merge' | 'move'
+
+// Written by the Edge Functions in the same transaction as the change it describes
+export interface AuditEntry {
+  id: string
+  actor: string // Email of the signed-in admin
+  created_at: string
+  entity: AuditEntity
+  entity_id: string
+  entity_name: string
+  action: AuditAction
+  server_id: string
+  club_id?: string
+  before: Record<string, unknown> | null // null on create
+  after: Record<string, unknown> | null // null on delete and purge
+  request_id?: string // x-request-id of the call that made the change
+}